@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import type { Property, Assumptions } from './types';
 import { defaultAssumptions, simulatePropertyData } from './utils/defaults';
+import { BatchPage } from './components/BatchPage';
 import { HomePage } from './components/HomePage';
 import { PropertyPage } from './components/PropertyPage';
 import { ThemeToggle } from './components/ui/ThemeToggle';
@@ -16,6 +17,7 @@ export default function App() {
   const [property, setProperty] = useState<Property | null>(null);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(false);
   const [initialAssumptions, setInitialAssumptions] = useState<Assumptions>(defaultAssumptions);
+  const [showBatch, setShowBatch] = useState<boolean>(false);
 
   const toggleDarkMode = () => setIsDarkMode(!isDarkMode);
 
@@ -25,12 +27,22 @@ export default function App() {
     setProperty(propertyData);
   };
 
+  if (showBatch) {
+    return (
+      <div className={isDarkMode ? 'dark' : ''}>
+        <div className="min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100 transition-colors duration-300">
+          <BatchPage onBack={() => setShowBatch(false)} isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} />
+        </div>
+      </div>
+    );
+  }
+
   if (!property) {
     return (
       <div className={isDarkMode ? 'dark' : ''}>
         <div className="flex flex-col items-center justify-center min-h-screen bg-gray-100 dark:bg-gray-900 text-gray-900 dark:text-gray-100 transition-colors duration-300">
           <ThemeToggle isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} />
-          <HomePage onAnalyze={handleAnalyze} />
+          <HomePage onAnalyze={handleAnalyze} onBatch={() => setShowBatch(true)} />
         </div>
       </div>
     );
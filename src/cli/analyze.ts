@@ -0,0 +1,81 @@
+import { parseArgs } from 'node:util';
+import type { Deal, DealAnalysis } from '../types';
+import { analyzeDeal } from '../utils/deal';
+import { formatMetricValue } from '../utils/metrics';
+import { UsageError, formatTable, parseFormat, parseScenarios, readInputFile } from './options';
+
+export const ANALYZE_USAGE = 'optimalhouse analyze <deal.json> [--scenario all|<id>,<id>...] [--format table|json]';
+
+/**
+ * Checks that parsed JSON is a deal: a property with an address, beds, baths
+ * and year, and optional assumption and personal overrides.
+ */
+const parseDeal = (json: unknown): Deal => {
+  const deal = json as Deal | null;
+  const property = deal?.property;
+  if (
+    !property ||
+    typeof property.address !== 'string' ||
+    typeof property.beds !== 'number' ||
+    typeof property.baths !== 'number' ||
+    typeof property.year !== 'number'
+  ) {
+    throw new Error('the deal needs a property with an address, beds, baths and year');
+  }
+  return deal;
+};
+
+/**
+ * Metrics as rows, one column per scenario.
+ */
+const formatAnalysisTable = (analysis: DealAnalysis): string => {
+  const { property, results } = analysis;
+  const rows = results
+    .flatMap((result) => result.metrics)
+    .filter((metric, i, all) => all.findIndex((candidate) => candidate.id === metric.id) === i)
+    .map((metric) => [
+      metric.label,
+      ...results.map((result) => {
+        const value = result.metrics.find((candidate) => candidate.id === metric.id);
+        return value ? formatMetricValue(value.value, value.format) : '–';
+      }),
+    ]);
+  const heading = `${property.address} (${property.beds} bd / ${property.baths} ba, built ${property.year})`;
+  return `${heading}\n\n${formatTable([['', ...results.map((result) => result.label)], ...rows])}`;
+};
+
+/**
+ * `optimalhouse analyze`: runs the scenarios on a deal file and prints the
+ * results. Returns 1 when validation finds errors.
+ */
+export const runAnalyze = (args: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      scenario: { type: 'string', default: 'all' },
+      format: { type: 'string', default: 'table' },
+    },
+  });
+  if (positionals.length !== 1) throw new UsageError('expected one deal file');
+
+  const scenarios = parseScenarios(values.scenario);
+  const format = parseFormat(values.format);
+  const text = readInputFile(positionals[0]);
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch (error) {
+    throw new Error(`${positionals[0]} is not valid JSON: ${(error as Error).message}`);
+  }
+  const analysis = analyzeDeal(parseDeal(json), scenarios);
+
+  if (format === 'json') {
+    console.log(JSON.stringify(analysis, null, 2));
+  } else if (analysis.results.length > 0) {
+    console.log(formatAnalysisTable(analysis));
+  }
+  analysis.validation.warnings.forEach((issue) => console.error(`warning: ${issue.message}`));
+  analysis.validation.errors.forEach((issue) => console.error(`error: ${issue.message}`));
+  return analysis.validation.errors.length > 0 ? 1 : 0;
+};
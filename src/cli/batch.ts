@@ -0,0 +1,65 @@
+import { parseArgs } from 'node:util';
+import type { BatchResult, Scenario } from '../types';
+import { BATCH_KEY_METRICS, analyzeBatch, batchToCsv, getBatchMetric, parseBatchCsv } from '../utils/batch';
+import { formatMetricValue } from '../utils/metrics';
+import { getScenario } from '../scenarios';
+import { UsageError, formatTable, parseFormat, parseScenarios, readInputFile } from './options';
+
+export const BATCH_USAGE =
+  'optimalhouse batch <listings.csv> [--scenario all|<id>,<id>...] [--format table|json|csv]';
+
+/**
+ * One row per listing, with the key metrics of each scenario as columns.
+ */
+const formatBatchTable = (results: BatchResult[], scenarios: Scenario[]): string => {
+  const headings = scenarios.flatMap((scenario) =>
+    BATCH_KEY_METRICS.map((id) => {
+      const metric = results.map((result) => getBatchMetric(result, scenario, id)).find(Boolean);
+      return `${getScenario(scenario).label} ${metric?.label ?? id}`;
+    })
+  );
+  const rows = results.map((result) => [
+    result.address,
+    ...scenarios.flatMap((scenario) =>
+      BATCH_KEY_METRICS.map((id) => {
+        const metric = getBatchMetric(result, scenario, id);
+        return metric ? formatMetricValue(metric.value, metric.format) : '–';
+      })
+    ),
+  ]);
+  return formatTable([['', ...headings], ...rows]);
+};
+
+/**
+ * `optimalhouse batch`: runs the scenarios on every listing in a CSV and
+ * prints the results. Returns 1 when any row can't be read or fails validation.
+ */
+export const runBatch = (args: string[]): number => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      scenario: { type: 'string', default: 'all' },
+      format: { type: 'string', default: 'table' },
+    },
+  });
+  if (positionals.length !== 1) throw new UsageError('expected one CSV file');
+
+  const scenarios = parseScenarios(values.scenario);
+  const format = parseFormat(values.format, ['table', 'json', 'csv']);
+  const { rows, ignoredColumns } = parseBatchCsv(readInputFile(positionals[0]));
+  const results = analyzeBatch(rows, scenarios);
+
+  if (format === 'json') {
+    console.log(JSON.stringify(results, null, 2));
+  } else if (format === 'csv') {
+    process.stdout.write(batchToCsv(results, scenarios));
+  } else if (results.length > 0) {
+    console.log(formatBatchTable(results, scenarios));
+  }
+  if (ignoredColumns.length > 0) console.error(`warning: ignoring columns ${ignoredColumns.join(', ')}`);
+  results.forEach((result) =>
+    result.errors.forEach((message) => console.error(`error: row ${result.row} (${result.address || 'no address'}): ${message}`))
+  );
+  return results.some((result) => result.errors.length > 0) ? 1 : 0;
+};
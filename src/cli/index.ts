@@ -0,0 +1,50 @@
+#!/usr/bin/env node
+import { ANALYZE_USAGE, runAnalyze } from './analyze';
+import { BATCH_USAGE, runBatch } from './batch';
+import { isUsageError } from './options';
+
+// Exit codes for a bad command line, and for an input file that can't be read
+// or analyzed; validation errors exit with 1
+const EXIT_USAGE = 2;
+const EXIT_FAILURE = 3;
+
+const COMMANDS: Record<string, { usage: string; run(args: string[]): number }> = {
+  analyze: { usage: ANALYZE_USAGE, run: runAnalyze },
+  batch: { usage: BATCH_USAGE, run: runBatch },
+};
+
+const usage = `Usage:\n${Object.values(COMMANDS).map((command) => `  ${command.usage}`).join('\n')}`;
+
+/**
+ * Headless entry point: runs the analysis engine from the command line.
+ */
+const main = (argv: string[]): number => {
+  const [name, ...args] = argv;
+  if (!name) {
+    console.error(usage);
+    return EXIT_USAGE;
+  }
+  if (name === '--help' || name === '-h') {
+    console.log(usage);
+    return 0;
+  }
+
+  const command = COMMANDS[name];
+  if (!command) {
+    console.error(`optimalhouse: unknown command ${name}\n${usage}`);
+    return EXIT_USAGE;
+  }
+
+  try {
+    return command.run(args);
+  } catch (error) {
+    if (isUsageError(error)) {
+      console.error(`optimalhouse: ${(error as Error).message}\nUsage: ${command.usage}`);
+      return EXIT_USAGE;
+    }
+    console.error(`optimalhouse: ${(error as Error).message}`);
+    return EXIT_FAILURE;
+  }
+};
+
+process.exitCode = main(process.argv.slice(2));
@@ -0,0 +1,70 @@
+import { readFileSync } from 'node:fs';
+import type { Scenario } from '../types';
+import { getScenarios } from '../scenarios';
+
+export type OutputFormat = 'table' | 'json' | 'csv';
+
+/**
+ * A bad command line: reported with the command's usage.
+ */
+export class UsageError extends Error {}
+
+/**
+ * Whether an error is a bad command line: a UsageError, or an option
+ * `parseArgs` rejected.
+ */
+export const isUsageError = (error: unknown): boolean => {
+  const code = (error as { code?: unknown } | null)?.code;
+  return error instanceof UsageError || (typeof code === 'string' && code.startsWith('ERR_PARSE_ARGS_'));
+};
+
+/**
+ * Scenarios from a `--scenario` value: `all`, or a comma-separated list of ids.
+ */
+export const parseScenarios = (value: string): Scenario[] => {
+  const known = getScenarios().map((definition) => definition.id);
+  if (value === 'all') return known;
+
+  const ids = value.split(',').map((id) => id.trim());
+  const unknown = ids.filter((id) => !known.includes(id as Scenario));
+  if (unknown.length > 0) {
+    throw new UsageError(`unknown scenario ${unknown.join(', ')} (expected all or ${known.join(', ')})`);
+  }
+  return ids as Scenario[];
+};
+
+/**
+ * Output format from a `--format` value, one of the formats a command supports.
+ */
+export const parseFormat = (value: string, formats: OutputFormat[] = ['table', 'json']): OutputFormat => {
+  if (!formats.includes(value as OutputFormat)) {
+    throw new UsageError(`unknown format ${value} (expected ${formats.slice(0, -1).join(', ')} or ${formats[formats.length - 1]})`);
+  }
+  return value as OutputFormat;
+};
+
+/**
+ * Reads a file, naming it in the error when it can't be read.
+ */
+export const readInputFile = (path: string): string => {
+  try {
+    return readFileSync(path, 'utf8');
+  } catch {
+    throw new Error(`can't read ${path}`);
+  }
+};
+
+/**
+ * Lays rows out in aligned columns: the first left-aligned, the rest right-aligned.
+ */
+export const formatTable = (rows: string[][]): string => {
+  const widths = rows[0].map((_, column) => Math.max(...rows.map((row) => (row[column] ?? '').length)));
+  return rows
+    .map((row) =>
+      row
+        .map((cell, column) => (column === 0 ? cell.padEnd(widths[column]) : cell.padStart(widths[column])))
+        .join('  ')
+        .trimEnd()
+    )
+    .join('\n');
+};
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight } from 'lucide-react';
+import type { AmortizationRow } from '../types';
+import { formatCurrency } from '../utils/calculations';
+import { summarizeScheduleByYear } from '../utils/amortization';
+
+interface AmortizationScheduleProps {
+  schedule: AmortizationRow[];
+}
+
+/**
+ * Loan amortization table with annual subtotals.
+ * Click a year to expand its monthly payments.
+ */
+export function AmortizationSchedule({ schedule }: AmortizationScheduleProps) {
+  const [expandedYear, setExpandedYear] = useState<number | null>(null);
+  const years = summarizeScheduleByYear(schedule);
+  const hasMortgageInsurance = years.some((year) => year.mortgageInsurance > 0);
+
+  if (years.length === 0) {
+    return <p className="text-gray-500 dark:text-gray-400">No loan (all-cash purchase).</p>;
+  }
+
+  return (
+    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+      <table className="w-full text-right">
+        <thead className="sticky top-0 bg-white dark:bg-gray-800">
+          <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+            <th className="py-2 text-left font-medium">Year / Month</th>
+            <th className="py-2 font-medium">Payment</th>
+            <th className="py-2 font-medium">Interest</th>
+            <th className="py-2 font-medium">Principal</th>
+            {hasMortgageInsurance && <th className="py-2 font-medium">Mortgage Ins.</th>}
+            <th className="py-2 font-medium">Balance</th>
+          </tr>
+        </thead>
+        <tbody>
+          {years.map((year) => {
+            const isExpanded = expandedYear === year.year;
+            return (
+              <React.Fragment key={year.year}>
+                <tr
+                  className="border-b border-dashed border-gray-200 dark:border-gray-700 font-semibold dark:text-white cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700"
+                  onClick={() => setExpandedYear(isExpanded ? null : year.year)}
+                >
+                  <td className="py-2 text-left">
+                    <span className="inline-flex items-center">
+                      {isExpanded ? <ChevronDown className="w-4 h-4 mr-1" /> : <ChevronRight className="w-4 h-4 mr-1" />}
+                      Year {year.year}
+                    </span>
+                  </td>
+                  <td className="py-2">{formatCurrency(year.payment)}</td>
+                  <td className="py-2">{formatCurrency(year.interest)}</td>
+                  <td className="py-2">{formatCurrency(year.principal)}</td>
+                  {hasMortgageInsurance && <td className="py-2">{formatCurrency(year.mortgageInsurance)}</td>}
+                  <td className="py-2">{formatCurrency(year.endingBalance)}</td>
+                </tr>
+                {isExpanded && schedule
+                  .filter((row) => Math.ceil(row.month / 12) === year.year)
+                  .map((row) => (
+                    <tr key={row.month} className="text-gray-500 dark:text-gray-400">
+                      <td className="py-1 pl-6 text-left">Month {row.month} @ {(row.rate * 100).toFixed(3)}%</td>
+                      <td className="py-1">{formatCurrency(row.payment)}</td>
+                      <td className="py-1">{formatCurrency(row.interest)}</td>
+                      <td className="py-1">{formatCurrency(row.principal)}</td>
+                      {hasMortgageInsurance && <td className="py-1">{formatCurrency(row.mortgageInsurance)}</td>}
+                      <td className="py-1">{formatCurrency(row.balance)}</td>
+                    </tr>
+                  ))}
+              </React.Fragment>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -1,49 +1,173 @@
-import React from 'react';
-import { Settings, User, Building, TrendingUp, Calculator, DollarSign, Calendar } from 'lucide-react';
-import type { Assumptions, PersonalInfo } from '../types';
+import React, { useMemo } from 'react';
+import { Settings, User, Building, Calculator, LineChart, Package, Hammer, Layers, ClipboardCheck, TrendingUp, Plus, Trash2 } from 'lucide-react';
+import type { Assumptions, AssumptionField, NumericKey, PersonalInfo, ValidationIssue, LoanProgram, RateType, FilingStatus, TaxYear, OpportunityCostMethod, Scenario, StartupCostItem, FurnishingsRecoveryYears, CapexComponent, BonusDepreciationRate, UnderwritingThresholds } from '../types';
 import { InputGroup } from './ui/InputGroup';
-import { SliderInput } from './ui/SliderInput';
+import { FieldInput } from './ui/FieldInput';
 import { SectionTitle } from './ui/SectionTitle';
+import { ScenarioIcon } from './ui/ScenarioIcon';
+import { AssumptionFieldInput } from './AssumptionFieldInput';
+import { TAX_RULES, getMarginalFederalRate } from '../utils/tax';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { getCapexReserve } from '../utils/capex';
+import { getBonusDepreciationRate } from '../utils/depreciation';
+import { ASSUMPTION_FIELDS, PERSONAL_FIELDS, UNDERWRITING_THRESHOLD_FIELDS } from '../utils/fieldSchema';
+import { validateInputs } from '../utils/validation';
+import { getScenarios } from '../scenarios';
 
 interface AssumptionEditorProps {
   assumptions: Assumptions;
   setAssumptions: React.Dispatch<React.SetStateAction<Assumptions>>;
   personal: PersonalInfo;
   setPersonal: React.Dispatch<React.SetStateAction<PersonalInfo>>;
+  // The scenario being viewed, whose inputs are validated
+  scenario: Scenario;
 }
 
 /**
  * The editor for all financial assumptions.
  */
-export function AssumptionEditor({ assumptions, setAssumptions, personal, setPersonal }: AssumptionEditorProps) {
-  const handleAssumptionChange = (key: keyof Assumptions, value: string | number) => {
-    let processedValue: number = 0;
-    if (key.includes('Percent') || key.includes('Rate')) {
-      if (value === '') {
-        processedValue = 0;
-      } else {
-        processedValue = parseFloat(value.toString()) / 100;
-      }
-    } else {
-      processedValue = Number(value);
-    }
-    setAssumptions((prev) => ({ ...prev, [key]: processedValue }));
+export function AssumptionEditor({ assumptions, setAssumptions, personal, setPersonal, scenario }: AssumptionEditorProps) {
+  const validation = useMemo(() => validateInputs(assumptions, personal, [scenario]), [assumptions, personal, scenario]);
+
+  // Errors take precedence over warnings on the same input
+  const issueFor = (key: ValidationIssue['key']): ValidationIssue | undefined =>
+    [...validation.errors, ...validation.warnings].find((issue) => issue.key === key);
+
+  // Field inputs parse into stored units (e.g. percents as fractions) per the field schema
+  const handleAssumptionChange = (key: NumericKey<Assumptions>, value: number) => {
+    setAssumptions((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleLoanProgramChange = (value: LoanProgram) => {
+    setAssumptions((prev) => ({ ...prev, loanProgram: value }));
+  };
+
+  const handleRateTypeChange = (value: RateType) => {
+    setAssumptions((prev) => ({ ...prev, rateType: value }));
   };
 
-  const handleSliderChange = (key: keyof Assumptions, value: number) => {
-     setAssumptions((prev) => ({ ...prev, [key]: value }));
+  // Scenario fields may update related assumptions too (e.g. the STR calendar)
+  const handleFieldChange = (field: AssumptionField, value: Assumptions[keyof Assumptions]) => {
+    setAssumptions((prev) => (field.update ? field.update(prev, value) : { ...prev, [field.key]: value }));
   };
 
-  const handlePersonalChange = (key: keyof PersonalInfo, value: string | number) => {
-    let processedValue: number = 0;
-    if (value === '') {
-      processedValue = 0;
-    } else {
-      processedValue = parseFloat(value.toString()) / 100;
-    }
-    setPersonal((prev) => ({ ...prev, [key]: processedValue }));
+  const handleStartupCostChange = <K extends keyof StartupCostItem>(index: number, key: K, value: StartupCostItem[K]) => {
+    setAssumptions((prev) => ({
+      ...prev,
+      startupCosts: prev.startupCosts.map((item, i) => (i === index ? { ...item, [key]: value } : item)),
+    }));
   };
 
+  const handleAddStartupCost = () => {
+    setAssumptions((prev) => ({
+      ...prev,
+      startupCosts: [...prev.startupCosts, { label: 'New Item', amount: 0, scenario: getScenarios()[0].id, depreciable: true }],
+    }));
+  };
+
+  const handleRemoveStartupCost = (index: number) => {
+    setAssumptions((prev) => ({ ...prev, startupCosts: prev.startupCosts.filter((_, i) => i !== index) }));
+  };
+
+  const handleFurnishingsRecoveryChange = (value: FurnishingsRecoveryYears) => {
+    setAssumptions((prev) => ({ ...prev, furnishingsRecoveryYears: value }));
+  };
+
+  const handleCostSegregationToggle = (enabled: boolean) => {
+    setAssumptions((prev) => ({ ...prev, costSegregationEnabled: enabled }));
+  };
+
+  const handleBonusRateChange = <K extends keyof BonusDepreciationRate>(index: number, key: K, value: BonusDepreciationRate[K]) => {
+    setAssumptions((prev) => ({
+      ...prev,
+      bonusDepreciationRates: prev.bonusDepreciationRates.map((entry, i) => (i === index ? { ...entry, [key]: value } : entry)),
+    }));
+  };
+
+  const handleAddBonusRate = () => {
+    setAssumptions((prev) => {
+      const lastYear = Math.max(prev.placedInServiceYear - 1, ...prev.bonusDepreciationRates.map((entry) => entry.year));
+      return { ...prev, bonusDepreciationRates: [...prev.bonusDepreciationRates, { year: lastYear + 1, rate: 0 }] };
+    });
+  };
+
+  const handleRemoveBonusRate = (index: number) => {
+    setAssumptions((prev) => ({ ...prev, bonusDepreciationRates: prev.bonusDepreciationRates.filter((_, i) => i !== index) }));
+  };
+
+  const handleCapexComponentChange = <K extends keyof CapexComponent>(index: number, key: K, value: CapexComponent[K]) => {
+    setAssumptions((prev) => ({
+      ...prev,
+      capexComponents: prev.capexComponents.map((component, i) => (i === index ? { ...component, [key]: value } : component)),
+    }));
+  };
+
+  const handleUnderwritingThresholdChange = (key: NumericKey<UnderwritingThresholds>, value: number) => {
+    setAssumptions((prev) => ({ ...prev, underwritingThresholds: { ...prev.underwritingThresholds, [key]: value } }));
+  };
+
+  const handleAddCapexComponent = () => {
+    setAssumptions((prev) => ({
+      ...prev,
+      capexComponents: [...prev.capexComponents, { label: 'New Component', replacementCost: 0, usefulLife: 15, age: 0 }],
+    }));
+  };
+
+  const handleRemoveCapexComponent = (index: number) => {
+    setAssumptions((prev) => ({ ...prev, capexComponents: prev.capexComponents.filter((_, i) => i !== index) }));
+  };
+
+  const handlePersonalChange = (key: NumericKey<PersonalInfo>, value: number) => {
+    setPersonal((prev) => ({ ...prev, [key]: value }));
+  };
+
+  const handleFilingStatusChange = (value: FilingStatus) => {
+    setPersonal((prev) => ({ ...prev, filingStatus: value }));
+  };
+
+  const handleOpportunityCostMethodChange = (value: OpportunityCostMethod) => {
+    setPersonal((prev) => ({ ...prev, opportunityCostMethod: value }));
+  };
+
+  const handleTaxYearChange = (value: TaxYear) => {
+    setPersonal((prev) => ({ ...prev, taxYear: value }));
+  };
+
+  const handlePersonalToggle = (key: 'activeParticipation' | 'realEstateProfessional' | 'strMaterialParticipation', checked: boolean) => {
+    setPersonal((prev) => ({ ...prev, [key]: checked }));
+  };
+
+  const assumptionInput = (key: NumericKey<Assumptions>) => (
+    <FieldInput
+      id={key}
+      field={ASSUMPTION_FIELDS[key]}
+      value={assumptions[key]}
+      onChange={(value) => handleAssumptionChange(key, value)}
+      issue={issueFor(key)}
+    />
+  );
+
+  const personalInput = (key: NumericKey<PersonalInfo>) => (
+    <FieldInput
+      id={key}
+      field={PERSONAL_FIELDS[key]}
+      value={personal[key]}
+      onChange={(value) => handlePersonalChange(key, value)}
+      issue={issueFor(key)}
+    />
+  );
+
+  const underwritingThresholdInput = (key: NumericKey<UnderwritingThresholds>) => (
+    <FieldInput
+      key={key}
+      id={key}
+      field={UNDERWRITING_THRESHOLD_FIELDS[key]}
+      value={assumptions.underwritingThresholds[key]}
+      onChange={(value) => handleUnderwritingThresholdChange(key, value)}
+      issue={issueFor(key)}
+    />
+  );
+
   return (
     <div className="overflow-hidden">
       <div className="p-5 border-b border-gray-200 dark:border-gray-700">
@@ -54,240 +178,388 @@ export function AssumptionEditor({ assumptions, setAssumptions, personal, setPer
         <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
           Tweak every variable to match your scenario.
         </p>
+        {validation.errors.length > 0 && (
+          <p className="text-sm font-medium text-red-600 dark:text-red-400 mt-2">
+            Fix {validation.errors.length === 1 ? 'the error' : `the ${validation.errors.length} errors`} below to update the analysis.
+          </p>
+        )}
       </div>
 
       {/* Scrollable content area */}
       <div className="p-5 space-y-6 max-h-[calc(100vh-16rem)] overflow-y-auto">
         {/* Personal Section */}
         <SectionTitle icon={<User />} title="Personal" />
-        <SliderInput
-          label="Federal Tax Rate"
-          id="federalTaxRate"
-          value={personal.federalTaxRate}
-          onChange={(e) => handlePersonalChange('federalTaxRate', e.target.value)}
-          min={0}
-          max={50}
-          step={1}
-          isPercent
-        />
-        <SliderInput
-          label="State Tax Rate"
-          id="stateTaxRate"
-          value={personal.stateTaxRate}
-          onChange={(e) => handlePersonalChange('stateTaxRate', e.target.value)}
-          min={0}
-          max={15}
-          step={0.5}
-          isPercent
-        />
-        <SliderInput
-          label="Opportunity Cost Rate"
-          id="opportunityCostRate"
-          value={personal.opportunityCostRate}
-          onChange={(e) => handlePersonalChange('opportunityCostRate', e.target.value)}
-          min={0}
-          max={15}
-          step={0.1}
-          isPercent
-          tooltip="Expected return if your cash was invested elsewhere (e.g., S&P 500)"
-        />
-
-        {/* Purchase Section */}
-        <SectionTitle icon={<Building />} title="Purchase & Loan" />
-        <InputGroup label="Purchase Price" id="purchasePrice" icon={<DollarSign className="icon-sm" />}>
-          <input
-            id="purchasePrice"
-            type="number"
-            value={assumptions.purchasePrice}
-            onChange={(e) => handleAssumptionChange('purchasePrice', e.target.value)}
+        <InputGroup label="Filing Status" id="filingStatus">
+          <select
+            id="filingStatus"
+            value={personal.filingStatus}
+            onChange={(e) => handleFilingStatusChange(e.target.value as FilingStatus)}
             className="form-input"
-            step="1000"
-          />
+          >
+            <option value="single">Single</option>
+            <option value="married-joint">Married Filing Jointly</option>
+            <option value="married-separate">Married Filing Separately</option>
+            <option value="head-of-household">Head of Household</option>
+          </select>
         </InputGroup>
-        <SliderInput
-          label="Down Payment"
-          id="downPaymentPercent"
-          value={assumptions.downPaymentPercent}
-          onChange={(e) => handleSliderChange('downPaymentPercent', Number(e.target.value))}
-          min={0}
-          max={100}
-          step={1}
-          isPercent
-        />
-        <SliderInput
-          label="Interest Rate"
-          id="interestRate"
-          value={assumptions.interestRate}
-          onChange={(e) => handleSliderChange('interestRate', Number(e.target.value))}
-          min={1}
-          max={15}
-          step={0.125}
-          isPercent
-        />
-        <InputGroup label="Loan Term (Years)" id="loanTerm" icon={<Calendar className="icon-sm" />}>
-          <input
-            id="loanTerm"
-            type="number"
-            value={assumptions.loanTerm}
-            onChange={(e) => handleAssumptionChange('loanTerm', e.target.value)}
+        {personalInput('w2Income')}
+        <InputGroup label="Tax Rules" id="taxYear">
+          <select
+            id="taxYear"
+            value={personal.taxYear}
+            onChange={(e) => handleTaxYearChange(e.target.value as TaxYear)}
             className="form-input"
-            step="1"
-            min="1"
-          />
+          >
+            {(Object.keys(TAX_RULES) as TaxYear[]).map((taxYear) => (
+              <option key={taxYear} value={taxYear}>{TAX_RULES[taxYear].label}</option>
+            ))}
+          </select>
         </InputGroup>
-        <SliderInput
-          label="Closing Costs"
-          id="closingCostsPercent"
-          value={assumptions.closingCostsPercent}
-          onChange={(e) => handleSliderChange('closingCostsPercent', Number(e.target.value))}
-          min={0}
-          max={10}
-          step={0.1}
-          isPercent
-        />
-
-        {/* Income Section */}
-        <SectionTitle icon={<TrendingUp />} title="Income Scenarios" />
-        <InputGroup label="Monthly Rent (LTR)" id="monthlyRent" icon={<DollarSign className="icon-sm" />}>
-          <input
-            id="monthlyRent"
-            type="number"
-            value={assumptions.monthlyRent}
-            onChange={(e) => handleAssumptionChange('monthlyRent', e.target.value)}
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Federal bracket: {formatPercent(getMarginalFederalRate(personal))}
+        </p>
+        {personalInput('stateTaxRate')}
+        {personalInput('capitalGainsRate')}
+        <div className="space-y-2">
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={personal.activeParticipation}
+              onChange={(e) => handlePersonalToggle('activeParticipation', e.target.checked)}
+            />
+            <span>Active participation in rental management</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={personal.realEstateProfessional}
+              onChange={(e) => handlePersonalToggle('realEstateProfessional', e.target.checked)}
+            />
+            <span>Real estate professional (REPS)</span>
+          </label>
+          <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={personal.strMaterialParticipation}
+              onChange={(e) => handlePersonalToggle('strMaterialParticipation', e.target.checked)}
+            />
+            <span>Material participation in short-term rental</span>
+          </label>
+        </div>
+        {personalInput('suspendedLossCarryforward')}
+
+        {/* Economic Assumptions Section */}
+        <SectionTitle icon={<TrendingUp />} title="Economic Assumptions" />
+        {personalInput('opportunityCostRate')}
+        <InputGroup label="Opportunity Cost" id="opportunityCostMethod">
+          <select
+            id="opportunityCostMethod"
+            value={personal.opportunityCostMethod}
+            onChange={(e) => handleOpportunityCostMethodChange(e.target.value as OpportunityCostMethod)}
             className="form-input"
-            step="25"
-          />
+          >
+            <option value="simple">Simple (same return on your cash every year)</option>
+            <option value="compounding">Compounding (return on what your cash would have grown to)</option>
+          </select>
         </InputGroup>
-        <InputGroup label="Avg. Nightly Rate (STR)" id="avgNightlyRate" icon={<DollarSign className="icon-sm" />}>
-          <input
-            id="avgNightlyRate"
-            type="number"
-            value={assumptions.avgNightlyRate}
-            onChange={(e) => handleAssumptionChange('avgNightlyRate', e.target.value)}
+        {personalInput('inflationRate')}
+
+        {/* Purchase Section */}
+        <SectionTitle icon={<Building />} title="Purchase & Loan" />
+        {assumptionInput('purchasePrice')}
+        {assumptionInput('downPaymentPercent')}
+        {assumptionInput('interestRate')}
+        {assumptionInput('loanTerm')}
+        {assumptionInput('closingCostsPercent')}
+        <InputGroup label="Loan Program" id="loanProgram">
+          <select
+            id="loanProgram"
+            value={assumptions.loanProgram}
+            onChange={(e) => handleLoanProgramChange(e.target.value as LoanProgram)}
             className="form-input"
-            step="5"
-          />
+          >
+            <option value="conventional">Conventional</option>
+            <option value="fha">FHA</option>
+          </select>
         </InputGroup>
-        <SliderInput
-          label="Occupancy Rate (STR)"
-          id="occupancyRate"
-          value={assumptions.occupancyRate}
-          onChange={(e) => handleSliderChange('occupancyRate', Number(e.target.value))}
-          min={0}
-          max={100}
-          step={1}
-          isPercent
-        />
-        <InputGroup label="Equivalent Rent (Owner)" id="equivalentRent" icon={<DollarSign className="icon-sm" />}>
-          <input
-            id="equivalentRent"
-            type="number"
-            value={assumptions.equivalentRent}
-            onChange={(e) => handleAssumptionChange('equivalentRent', e.target.value)}
+        {assumptions.loanProgram === 'conventional' ? (
+          assumptionInput('pmiRate')
+        ) : (
+          <>
+            {assumptionInput('fhaUpfrontMipPercent')}
+            {assumptionInput('fhaAnnualMipRate')}
+          </>
+        )}
+        {assumptionInput('discountPoints')}
+        {assumptionInput('pointRateReduction')}
+        <InputGroup label="Rate Type" id="rateType">
+          <select
+            id="rateType"
+            value={assumptions.rateType}
+            onChange={(e) => handleRateTypeChange(e.target.value as RateType)}
             className="form-input"
-            step="25"
-          />
+          >
+            <option value="fixed">Fixed</option>
+            <option value="arm-5-1">5/1 ARM</option>
+            <option value="arm-7-1">7/1 ARM</option>
+          </select>
         </InputGroup>
+        {assumptions.rateType !== 'fixed' && (
+          <>
+            {assumptionInput('armIndexRate')}
+            {assumptionInput('armMarginPercent')}
+            {assumptionInput('armInitialCapPercent')}
+            {assumptionInput('armPeriodicCapPercent')}
+            {assumptionInput('armLifetimeCapPercent')}
+          </>
+        )}
+        {assumptionInput('interestOnlyYears')}
 
-        {/* Expenses Section */}
-        <SectionTitle icon={<Calculator />} title="Operating Expenses" />
-        <SliderInput
-          label="Property Tax"
-          id="propertyTaxPercent"
-          value={assumptions.propertyTaxPercent}
-          onChange={(e) => handleSliderChange('propertyTaxPercent', Number(e.target.value))}
-          min={0}
-          max={5}
-          step={0.05}
-          isPercent
-          tooltip="(as % of Purchase Price)"
-        />
-        <SliderInput
-          label="Home Insurance"
-          id="homeInsurancePercent"
-          value={assumptions.homeInsurancePercent}
-          onChange={(e) => handleSliderChange('homeInsurancePercent', Number(e.target.value))}
-          min={0}
-          max={2}
-          step={0.01}
-          isPercent
-          tooltip="(as % of Purchase Price)"
-        />
-        <InputGroup label="Monthly HOA" id="monthlyHOA" icon={<DollarSign className="icon-sm" />}>
-          <input
-            id="monthlyHOA"
-            type="number"
-            value={assumptions.monthlyHOA}
-            onChange={(e) => handleAssumptionChange('monthlyHOA', e.target.value)}
+        {/* Scenario Sections */}
+        {getScenarios().filter((definition) => definition.fields.length > 0).map((definition) => (
+          <React.Fragment key={definition.id}>
+            <SectionTitle icon={<ScenarioIcon name={definition.icon} />} title={definition.label} />
+            {definition.fields
+              .filter((field) => !field.visible || field.visible(assumptions))
+              .map((field) => (
+                <AssumptionFieldInput
+                  key={field.key}
+                  field={field}
+                  assumptions={assumptions}
+                  onChange={handleFieldChange}
+                  issue={issueFor(field.key as ValidationIssue['key'])}
+                />
+              ))}
+          </React.Fragment>
+        ))}
+
+        {/* Startup Capital Section */}
+        <SectionTitle icon={<Package />} title="Startup Capital" />
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Spent before the first tenant or guest. Added to total cash needed for its scenario.
+        </p>
+        {assumptions.startupCosts.map((item, i) => (
+          <div key={i} className="space-y-2 border-b border-dashed border-gray-200 dark:border-gray-700 pb-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={item.label}
+                onChange={(e) => handleStartupCostChange(i, 'label', e.target.value)}
+                className="form-input"
+                aria-label="Item"
+              />
+              <button
+                onClick={() => handleRemoveStartupCost(i)}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label={`Remove ${item.label}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="flex items-center space-x-2">
+              <input
+                type="number"
+                value={item.amount}
+                onChange={(e) => handleStartupCostChange(i, 'amount', Number(e.target.value))}
+                className="form-input"
+                step="500"
+                min="0"
+                aria-label="Amount"
+              />
+              <select
+                value={item.scenario}
+                onChange={(e) => handleStartupCostChange(i, 'scenario', e.target.value as Scenario)}
+                className="form-input"
+                aria-label="Scenario"
+              >
+                {getScenarios().map((definition) => (
+                  <option key={definition.id} value={definition.id}>{definition.label}</option>
+                ))}
+              </select>
+            </div>
+            <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={item.depreciable}
+                onChange={(e) => handleStartupCostChange(i, 'depreciable', e.target.checked)}
+              />
+              <span>Depreciable furnishings / equipment</span>
+            </label>
+          </div>
+        ))}
+        <button
+          onClick={handleAddStartupCost}
+          className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Item
+        </button>
+        <InputGroup label="Furnishings Depreciation" id="furnishingsRecoveryYears">
+          <select
+            id="furnishingsRecoveryYears"
+            value={assumptions.furnishingsRecoveryYears}
+            onChange={(e) => handleFurnishingsRecoveryChange(Number(e.target.value) as FurnishingsRecoveryYears)}
             className="form-input"
-            step="5"
-          />
+          >
+            <option value={5}>5-Year MACRS (rental furnishings & appliances)</option>
+            <option value={7}>7-Year MACRS (office furniture & fixtures)</option>
+          </select>
         </InputGroup>
-        <InputGroup label="Utilities (Monthly)" id="utilitiesMonthly" icon={<DollarSign className="icon-sm" />}>
+
+        {/* Cost Segregation & Bonus Depreciation Section */}
+        <SectionTitle icon={<Layers />} title="Cost Segregation & Bonus Depreciation" />
+        <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
           <input
-            id="utilitiesMonthly"
-            type="number"
-            value={assumptions.utilitiesMonthly}
-            onChange={(e) => handleAssumptionChange('utilitiesMonthly', e.target.value)}
-            className="form-input"
-            step="10"
+            type="checkbox"
+            checked={assumptions.costSegregationEnabled}
+            onChange={(e) => handleCostSegregationToggle(e.target.checked)}
           />
-        </InputGroup>
-        <SliderInput
-          label="Maintenance"
-          id="maintenancePercent"
-          value={assumptions.maintenancePercent}
-          onChange={(e) => handleSliderChange('maintenancePercent', Number(e.target.value))}
-          min={0}
-          max={20}
-          step={0.5}
-          isPercent
-          tooltip="(as % of Gross Income)"
-        />
-        <SliderInput
-          label="Vacancy (LTR)"
-          id="vacancyPercent"
-          value={assumptions.vacancyPercent}
-          onChange={(e) => handleSliderChange('vacancyPercent', Number(e.target.value))}
-          min={0}
-          max={20}
-          step={0.5}
-          isPercent
-          tooltip="(as % of LTR Gross Income)"
-        />
-        <SliderInput
-          label="Management Fee"
-          id="mgmtFeePercent"
-          value={assumptions.mgmtFeePercent}
-          onChange={(e) => handleSliderChange('mgmtFeePercent', Number(e.target.value))}
-          min={0}
-          max={20}
-          step={0.5}
-          isPercent
-          tooltip="(as % of Gross Income)"
-        />
-        <SliderInput
-          label="STR Platform Fee"
-          id="airbnbFeePercent"
-          value={assumptions.airbnbFeePercent}
-          onChange={(e) => handleSliderChange('airbnbFeePercent', Number(e.target.value))}
-          min={0}
-          max={20}
-          step={0.1}
-          isPercent
-          tooltip="(as % of STR Gross Income)"
-        />
-        <SliderInput
-          label="Land Value"
-          id="landValuePercent"
-          value={assumptions.landValuePercent}
-          onChange={(e) => handleSliderChange('landValuePercent', Number(e.target.value))}
-          min={0}
-          max={50}
-          step={1}
-          isPercent
-          tooltip="(as % of Purchase Price, for depreciation)"
-        />
+          <span>Reclassify part of the building into 5-, 7- and 15-year property</span>
+        </label>
+        {assumptions.costSegregationEnabled && (
+          <>
+            {assumptionInput('costSegFiveYearPercent')}
+            {assumptionInput('costSegSevenYearPercent')}
+            {assumptionInput('costSegFifteenYearPercent')}
+          </>
+        )}
+        {assumptionInput('placedInServiceYear')}
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Bonus depreciation by placed-in-service year; each rate applies until the next year listed.
+          Applies to furnishings, and to cost-segregated property when that's on: {formatPercent(getBonusDepreciationRate(assumptions))}.
+        </p>
+        {assumptions.bonusDepreciationRates.map((entry, i) => (
+          <div key={i} className="flex items-center space-x-2">
+            <input
+              type="number"
+              value={entry.year}
+              onChange={(e) => handleBonusRateChange(i, 'year', Number(e.target.value))}
+              className="form-input"
+              step="1"
+              aria-label="Year"
+            />
+            <input
+              type="number"
+              value={Math.round(entry.rate * 100)}
+              onChange={(e) => handleBonusRateChange(i, 'rate', Number(e.target.value) / 100)}
+              className="form-input"
+              step="10"
+              min="0"
+              max="100"
+              aria-label="Bonus %"
+            />
+            <button
+              onClick={() => handleRemoveBonusRate(i)}
+              className="p-2 text-gray-400 hover:text-red-600"
+              aria-label={`Remove ${entry.year}`}
+            >
+              <Trash2 className="w-4 h-4" />
+            </button>
+          </div>
+        ))}
+        <button
+          onClick={handleAddBonusRate}
+          className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Year
+        </button>
+
+        {/* Expenses Section */}
+        <SectionTitle icon={<Calculator />} title="Operating Expenses" />
+        {assumptionInput('propertyTaxPercent')}
+        {assumptionInput('homeInsurancePercent')}
+        {assumptionInput('monthlyHOA')}
+        {assumptionInput('utilitiesMonthly')}
+        {assumptionInput('maintenancePercent')}
+        {assumptionInput('vacancyPercent')}
+        {assumptionInput('mgmtFeePercent')}
+        {assumptionInput('landValuePercent')}
+
+        {/* Capital Expenditures Section */}
+        <SectionTitle icon={<Hammer />} title="Capital Expenditures" />
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Big-ticket replacements, reserved over each component's remaining life and paid as they come due.
+          Year 1 reserve: {formatCurrency(getCapexReserve(assumptions, 1))}.
+        </p>
+        {assumptions.capexComponents.map((component, i) => (
+          <div key={i} className="space-y-2 border-b border-dashed border-gray-200 dark:border-gray-700 pb-3">
+            <div className="flex items-center space-x-2">
+              <input
+                type="text"
+                value={component.label}
+                onChange={(e) => handleCapexComponentChange(i, 'label', e.target.value)}
+                className="form-input"
+                aria-label="Component"
+              />
+              <button
+                onClick={() => handleRemoveCapexComponent(i)}
+                className="p-2 text-gray-400 hover:text-red-600"
+                aria-label={`Remove ${component.label}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+            <div className="grid grid-cols-3 gap-2">
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                Replacement Cost
+                <input
+                  type="number"
+                  value={component.replacementCost}
+                  onChange={(e) => handleCapexComponentChange(i, 'replacementCost', Number(e.target.value))}
+                  className="form-input"
+                  step="100"
+                  min="0"
+                />
+              </label>
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                Useful Life (Yrs)
+                <input
+                  type="number"
+                  value={component.usefulLife}
+                  onChange={(e) => handleCapexComponentChange(i, 'usefulLife', Number(e.target.value))}
+                  className="form-input"
+                  step="1"
+                  min="1"
+                />
+              </label>
+              <label className="text-xs text-gray-500 dark:text-gray-400">
+                Age (Yrs)
+                <input
+                  type="number"
+                  value={component.age}
+                  onChange={(e) => handleCapexComponentChange(i, 'age', Number(e.target.value))}
+                  className="form-input"
+                  step="1"
+                  min="0"
+                />
+              </label>
+            </div>
+          </div>
+        ))}
+        <button
+          onClick={handleAddCapexComponent}
+          className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+        >
+          <Plus className="w-4 h-4 mr-1" />
+          Add Component
+        </button>
+
+        {/* Projection Section */}
+        <SectionTitle icon={<LineChart />} title="Growth, Hold & Sale" />
+        {assumptionInput('holdPeriodYears')}
+        {assumptionInput('rentGrowthRate')}
+        {assumptionInput('expenseGrowthRate')}
+        {assumptionInput('appreciationRate')}
+        {assumptionInput('sellingCommissionPercent')}
+        {assumptionInput('transferTaxPercent')}
+
+        {/* Underwriting Section */}
+        <SectionTitle icon={<ClipboardCheck />} title="Underwriting Thresholds" />
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          Pass/fail limits for the rental underwriting checks.
+        </p>
+        {(Object.keys(UNDERWRITING_THRESHOLD_FIELDS) as NumericKey<UnderwritingThresholds>[]).map(underwritingThresholdInput)}
       </div>
     </div>
   );
@@ -0,0 +1,58 @@
+import React from 'react';
+import type { Assumptions, AssumptionField, NumericKey, StrCalendarMonth, ValidationIssue } from '../types';
+import { ASSUMPTION_FIELDS } from '../utils/fieldSchema';
+import { InputGroup } from './ui/InputGroup';
+import { FieldInput } from './ui/FieldInput';
+import { StrCalendarEditor } from './StrCalendarEditor';
+
+interface AssumptionFieldInputProps {
+  field: AssumptionField;
+  assumptions: Assumptions;
+  onChange: (field: AssumptionField, value: Assumptions[keyof Assumptions]) => void;
+  issue?: ValidationIssue;
+}
+
+/**
+ * The input for one scenario assumption field, chosen by its kind or, for
+ * numbers, by its unit in the field schema.
+ */
+export function AssumptionFieldInput({ field, assumptions, onChange, issue }: AssumptionFieldInputProps) {
+  const value = assumptions[field.key];
+
+  switch (field.kind) {
+    case 'select':
+      return (
+        <InputGroup label={field.label ?? field.key} id={field.key}>
+          <select
+            id={field.key}
+            value={String(value)}
+            onChange={(e) => onChange(field, e.target.value as Assumptions[keyof Assumptions])}
+            className="form-input"
+          >
+            {field.options?.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </InputGroup>
+      );
+    case 'str-calendar':
+      return (
+        <StrCalendarEditor
+          title={field.label ?? field.key}
+          calendar={value as StrCalendarMonth[]}
+          onChange={(calendar) => onChange(field, calendar)}
+          issue={issue}
+        />
+      );
+    default:
+      return (
+        <FieldInput
+          id={field.key}
+          field={ASSUMPTION_FIELDS[field.key as NumericKey<Assumptions>]}
+          value={Number(value)}
+          onChange={(next) => onChange(field, next)}
+          issue={issue}
+        />
+      );
+  }
+}
@@ -1,6 +1,6 @@
 import React from 'react';
 import { X } from 'lucide-react';
-import type { Assumptions, PersonalInfo } from '../types';
+import type { Assumptions, PersonalInfo, Scenario } from '../types';
 import { AssumptionEditor } from './AssumptionEditor';
 
 interface AssumptionModalProps {
@@ -8,13 +8,15 @@ interface AssumptionModalProps {
   setAssumptions: React.Dispatch<React.SetStateAction<Assumptions>>;
   personal: PersonalInfo;
   setPersonal: React.Dispatch<React.SetStateAction<PersonalInfo>>;
+  // The scenario being viewed, whose inputs are validated
+  scenario: Scenario;
   onClose: () => void;
 }
 
 /**
  * A modal to hold the AssumptionEditor.
  */
-export function AssumptionModal({ assumptions, setAssumptions, personal, setPersonal, onClose }: AssumptionModalProps) {
+export function AssumptionModal({ assumptions, setAssumptions, personal, setPersonal, scenario, onClose }: AssumptionModalProps) {
   return (
     <div
       className="fixed inset-0 z-50 flex items-start justify-center p-4 sm:p-6 lg:p-8 overflow-y-auto bg-black/30 dark:bg-black/50 backdrop-blur-sm"
@@ -37,6 +39,7 @@ export function AssumptionModal({ assumptions, setAssumptions, personal, setPers
           setAssumptions={setAssumptions}
           personal={personal}
           setPersonal={setPersonal}
+          scenario={scenario}
         />
       </div>
     </div>
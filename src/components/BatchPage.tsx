@@ -0,0 +1,319 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowDown, ArrowLeft, ArrowUp, CircleAlert, Download, TriangleAlert, Upload } from 'lucide-react';
+import type { BatchImport, BatchResult, Scenario } from '../types';
+import { BATCH_KEY_METRICS, analyzeBatch, batchToCsv, getBatchMetric, parseBatchCsv } from '../utils/batch';
+import { formatCurrency } from '../utils/calculations';
+import { formatMetricValue } from '../utils/metrics';
+import { getScenarios } from '../scenarios';
+import { InputGroup } from './ui/InputGroup';
+import { ThemeToggle } from './ui/ThemeToggle';
+
+interface BatchPageProps {
+  onBack: () => void;
+  isDarkMode: boolean;
+  toggleDarkMode: () => void;
+}
+
+interface BatchColumn {
+  id: string;
+  label: string;
+  // Scenario label for the grouped header row
+  group?: string;
+  value: (result: BatchResult) => string | number | undefined;
+  render: (result: BatchResult) => React.ReactNode;
+}
+
+interface BatchSort {
+  column: string;
+  descending: boolean;
+}
+
+const metricColumns = (results: BatchResult[], scenario: Scenario, group: string): BatchColumn[] =>
+  BATCH_KEY_METRICS.map((id) => ({
+    id: `${scenario}:${id}`,
+    label: results.map((result) => getBatchMetric(result, scenario, id)).find(Boolean)?.label ?? id,
+    group,
+    value: (result) => getBatchMetric(result, scenario, id)?.value,
+    render: (result) => {
+      const metric = getBatchMetric(result, scenario, id);
+      if (!metric) return '–';
+      return (
+        <span className={metric.value < 0 ? 'text-red-600 dark:text-red-400' : ''}>
+          {formatMetricValue(metric.value, metric.format)}
+        </span>
+      );
+    },
+  }));
+
+const compareValues = (a: string | number, b: string | number): number => {
+  return typeof a === 'string' || typeof b === 'string' ? String(a).localeCompare(String(b)) : a - b;
+};
+
+/**
+ * Screens a CSV of listings: every scenario runs on each row, in a grid that
+ * sorts, filters and exports back to CSV.
+ */
+export function BatchPage({ onBack, isDarkMode, toggleDarkMode }: BatchPageProps) {
+  const scenarios = useMemo(() => getScenarios(), []);
+  const [fileName, setFileName] = useState<string>('');
+  const [batch, setBatch] = useState<BatchImport | null>(null);
+  const [importError, setImportError] = useState<string>('');
+  const [search, setSearch] = useState<string>('');
+  const [shownScenario, setShownScenario] = useState<Scenario | 'all'>('all');
+  const [hideErrors, setHideErrors] = useState<boolean>(false);
+  const [positiveOnly, setPositiveOnly] = useState<boolean>(false);
+  const [sort, setSort] = useState<BatchSort>({ column: 'row', descending: false });
+
+  // Every scenario runs once per import; the scenario filter only hides columns
+  const results = useMemo(
+    () => (batch ? analyzeBatch(batch.rows, scenarios.map((definition) => definition.id)) : []),
+    [batch, scenarios]
+  );
+  const shownScenarios = useMemo(
+    () => (shownScenario === 'all' ? scenarios.map((definition) => definition.id) : [shownScenario]),
+    [scenarios, shownScenario]
+  );
+
+  const columns = useMemo((): BatchColumn[] => [
+    {
+      id: 'address',
+      label: 'Address',
+      value: (result) => result.address,
+      render: (result) => (
+        <span className="flex items-center">
+          {result.errors.length > 0 && (
+            <span title={result.errors.join('\n')}>
+              <CircleAlert className="w-4 h-4 mr-1.5 flex-shrink-0 text-red-600 dark:text-red-400" />
+            </span>
+          )}
+          {result.address || `Row ${result.row}`}
+        </span>
+      ),
+    },
+    {
+      id: 'beds',
+      label: 'Bd / Ba',
+      value: (result) => result.analysis?.property.beds,
+      render: (result) => (result.analysis ? `${result.analysis.property.beds} / ${result.analysis.property.baths}` : '–'),
+    },
+    {
+      id: 'price',
+      label: 'Price',
+      value: (result) => result.analysis?.assumptions.purchasePrice,
+      render: (result) => (result.analysis ? formatCurrency(result.analysis.assumptions.purchasePrice) : '–'),
+    },
+    ...scenarios
+      .filter((definition) => shownScenarios.includes(definition.id))
+      .flatMap((definition) => metricColumns(results, definition.id, definition.label)),
+  ], [results, scenarios, shownScenarios]);
+
+  const rows = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const column = columns.find((candidate) => candidate.id === sort.column);
+    return results
+      .filter((result) => !query || result.address.toLowerCase().includes(query))
+      .filter((result) => !hideErrors || result.errors.length === 0)
+      .filter(
+        (result) =>
+          !positiveOnly ||
+          shownScenarios.some((scenario) => (getBatchMetric(result, scenario, 'annual-cash-flow')?.value ?? 0) > 0)
+      )
+      .sort((a, b) => {
+        if (!column) return a.row - b.row;
+        const [valueA, valueB] = [column.value(a), column.value(b)];
+        // Rows without a value sort last either way
+        if (valueA === undefined || valueB === undefined) return Number(valueA === undefined) - Number(valueB === undefined);
+        return sort.descending ? compareValues(valueB, valueA) : compareValues(valueA, valueB);
+      });
+  }, [results, columns, search, hideErrors, positiveOnly, shownScenarios, sort]);
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      setBatch(parseBatchCsv(await file.text()));
+      setImportError('');
+    } catch (error) {
+      setBatch(null);
+      setImportError((error as Error).message);
+    }
+  };
+
+  const handleSort = (column: string) => {
+    setSort((prev) => ({ column, descending: prev.column === column ? !prev.descending : column !== 'address' }));
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([batchToCsv(rows, shownScenarios)], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${fileName.replace(/\.csv$/i, '') || 'listings'}-analysis.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const failed = results.filter((result) => result.errors.length > 0).length;
+
+  return (
+    <div className="flex flex-col h-screen">
+      {/* Header */}
+      <header className="flex-shrink-0 bg-white dark:bg-gray-800 shadow-md dark:shadow-none dark:border-b dark:border-gray-700">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex justify-between items-center h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={onBack}
+                className="p-2 rounded-full text-gray-500 dark:text-gray-400 hover:bg-gray-100 dark:hover:bg-gray-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                aria-label="Back"
+              >
+                <ArrowLeft className="w-6 h-6" />
+              </button>
+              <div>
+                <h1 className="text-xl font-semibold">Batch Analysis</h1>
+                <p className="text-sm text-gray-500 dark:text-gray-400">
+                  {batch ? `${fileName} | ${results.length} listings${failed > 0 ? ` | ${failed} with errors` : ''}` : 'Screen a CSV of listings'}
+                </p>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              {batch && (
+                <button
+                  onClick={handleExport}
+                  disabled={rows.length === 0}
+                  className="flex items-center py-2 px-3 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+                >
+                  <Download className="w-4 h-4 mr-1.5" />
+                  Export CSV
+                </button>
+              )}
+              <ThemeToggle isDarkMode={isDarkMode} toggleDarkMode={toggleDarkMode} />
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
+        <div className="max-w-7xl mx-auto space-y-6">
+          <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 sm:p-6 space-y-4">
+            <label className="flex flex-col items-center justify-center p-6 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:border-blue-500 transition-colors">
+              <Upload className="w-8 h-8 text-gray-400 mb-2" />
+              <span className="text-sm font-medium">{batch ? 'Choose another CSV' : 'Choose a CSV of listings'}</span>
+              <span className="mt-1 text-xs text-gray-500 dark:text-gray-400 text-center">
+                Needs address, beds, baths and year columns. Optional price, rent or any input key (e.g. interestRate,
+                avgNightlyRate) overrides the estimate; enter percents as whole numbers.
+              </span>
+              <input type="file" accept=".csv,text/csv" className="sr-only" onChange={(e) => handleFile(e.target.files?.[0])} />
+            </label>
+            {importError && (
+              <p className="flex items-center text-sm text-red-600 dark:text-red-400">
+                <CircleAlert className="w-4 h-4 mr-1.5" />
+                {fileName}: {importError}
+              </p>
+            )}
+            {batch && batch.ignoredColumns.length > 0 && (
+              <p className="flex items-center text-sm text-amber-700 dark:text-amber-300">
+                <TriangleAlert className="w-4 h-4 mr-1.5 flex-shrink-0" />
+                Ignoring columns {batch.ignoredColumns.join(', ')}
+              </p>
+            )}
+          </div>
+
+          {batch && (
+            <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 sm:p-6 space-y-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <InputGroup label="Search Addresses" id="batchSearch">
+                  <input
+                    id="batchSearch"
+                    type="text"
+                    value={search}
+                    onChange={(e) => setSearch(e.target.value)}
+                    className="form-input"
+                  />
+                </InputGroup>
+                <InputGroup label="Scenarios" id="batchScenario">
+                  <select
+                    id="batchScenario"
+                    value={shownScenario}
+                    onChange={(e) => setShownScenario(e.target.value as Scenario | 'all')}
+                    className="form-input"
+                  >
+                    <option value="all">All scenarios</option>
+                    {scenarios.map((definition) => (
+                      <option key={definition.id} value={definition.id}>
+                        {definition.label}
+                      </option>
+                    ))}
+                  </select>
+                </InputGroup>
+              </div>
+              <div className="flex flex-wrap gap-x-6 gap-y-2">
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={hideErrors} onChange={(e) => setHideErrors(e.target.checked)} />
+                  <span>Hide rows with errors</span>
+                </label>
+                <label className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input type="checkbox" checked={positiveOnly} onChange={(e) => setPositiveOnly(e.target.checked)} />
+                  <span>Positive cash flow only</span>
+                </label>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm text-right dark:text-gray-300">
+                  <thead>
+                    <tr className="text-xs uppercase tracking-wide text-gray-400 dark:text-gray-500">
+                      {columns
+                        .filter((column, i) => i === 0 || column.group !== columns[i - 1].group)
+                        .map((column) => (
+                          <th
+                            key={column.group ?? 'property'}
+                            colSpan={columns.filter((candidate) => candidate.group === column.group).length}
+                            className="pt-2 px-2 font-medium text-center whitespace-nowrap"
+                          >
+                            {column.group}
+                          </th>
+                        ))}
+                    </tr>
+                    <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                      {columns.map((column) => (
+                        <th key={column.id} className={`py-2 px-2 font-medium ${column.id === 'address' ? 'text-left' : ''}`}>
+                          <button
+                            onClick={() => handleSort(column.id)}
+                            className="inline-flex items-center whitespace-nowrap hover:text-gray-900 dark:hover:text-white"
+                          >
+                            {column.label}
+                            {sort.column === column.id &&
+                              (sort.descending ? <ArrowDown className="w-3 h-3 ml-1" /> : <ArrowUp className="w-3 h-3 ml-1" />)}
+                          </button>
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map((result) => (
+                      <tr key={result.row} className="border-b border-dashed border-gray-200 dark:border-gray-700">
+                        {columns.map((column) => (
+                          <td
+                            key={column.id}
+                            className={`py-2 px-2 whitespace-nowrap ${column.id === 'address' ? 'text-left font-medium dark:text-white' : ''}`}
+                          >
+                            {column.render(result)}
+                          </td>
+                        ))}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rows.length === 0 && (
+                  <p className="py-6 text-center text-sm text-gray-500 dark:text-gray-400">No listings match the filters.</p>
+                )}
+              </div>
+            </div>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
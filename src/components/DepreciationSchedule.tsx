@@ -0,0 +1,70 @@
+import React from 'react';
+import type { DepreciationYear } from '../types';
+import { formatCurrency } from '../utils/calculations';
+
+interface DepreciationScheduleProps {
+  schedule: DepreciationYear[];
+  holdPeriodYears: number;
+}
+
+/**
+ * Depreciation by asset class over the full recovery period.
+ * Years after the planned sale are dimmed.
+ */
+export function DepreciationSchedule({ schedule, holdPeriodYears }: DepreciationScheduleProps) {
+  const hasCostSegregation = schedule.some((row) => row.fiveYear + row.sevenYear + row.fifteenYear > 0);
+  const hasFurnishings = schedule.some((row) => row.furnishings > 0);
+  let cumulative = 0;
+
+  return (
+    <div className="overflow-x-auto max-h-96 overflow-y-auto">
+      <table className="w-full text-right">
+        <thead className="sticky top-0 bg-white dark:bg-gray-800">
+          <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+            <th className="py-2 text-left font-medium">Year</th>
+            <th className="py-2 font-medium">Building</th>
+            {hasCostSegregation && (
+              <>
+                <th className="py-2 font-medium">5-Year</th>
+                <th className="py-2 font-medium">7-Year</th>
+                <th className="py-2 font-medium">15-Year</th>
+              </>
+            )}
+            {hasFurnishings && <th className="py-2 font-medium">Furnishings</th>}
+            <th className="py-2 font-medium">Total</th>
+            <th className="py-2 font-medium">Cumulative</th>
+          </tr>
+        </thead>
+        <tbody>
+          {schedule.map((row) => {
+            cumulative += row.total;
+            return (
+              <tr
+                key={row.year}
+                className={`border-b border-dashed border-gray-200 dark:border-gray-700 ${
+                  row.year > holdPeriodYears ? 'text-gray-400 dark:text-gray-500' : ''
+                }`}
+              >
+                <td className="py-2 text-left">
+                  {row.year}
+                  {row.year === holdPeriodYears && <span className="ml-1 text-xs">(sale)</span>}
+                </td>
+                <td className="py-2">{formatCurrency(row.building)}</td>
+                {hasCostSegregation && (
+                  <>
+                    <td className="py-2">{formatCurrency(row.fiveYear)}</td>
+                    <td className="py-2">{formatCurrency(row.sevenYear)}</td>
+                    <td className="py-2">{formatCurrency(row.fifteenYear)}</td>
+                  </>
+                )}
+                {hasFurnishings && <td className="py-2">{formatCurrency(row.furnishings)}</td>}
+                <td className="py-2 font-semibold">{formatCurrency(row.total)}</td>
+                <td className="py-2">{formatCurrency(cumulative)}</td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,131 @@
+import React, { useMemo, useState } from 'react';
+import { Target } from 'lucide-react';
+import type { Assumptions, InputVariable, PersonalInfo, Scenario } from '../types';
+import { getDefaultBounds, solveForInput } from '../utils/goalSeek';
+import { formatInputValue, getInputValue, getInputVariables, isPercentInput } from '../utils/inputs';
+import { formatMetricValue, getOutputMetrics } from '../utils/metrics';
+import { SectionTitle } from './ui/SectionTitle';
+import { InputGroup } from './ui/InputGroup';
+import { StatCard } from './ui/StatCard';
+
+interface GoalSeekPanelProps {
+  assumptions: Assumptions;
+  personal: PersonalInfo;
+  scenario: Scenario;
+}
+
+/**
+ * Solves for the value of one assumption that makes a metric hit a target,
+ * e.g. the highest offer price for 8% cash on cash.
+ */
+export function GoalSeekPanel({ assumptions, personal, scenario }: GoalSeekPanelProps) {
+  const [metricId, setMetricId] = useState<string>('annual-cash-flow');
+  const [target, setTarget] = useState<number>(0);
+  const [variableKey, setVariableKey] = useState<string>('purchasePrice');
+  // Bounds the user has typed in; the defaults apply until then
+  const [bounds, setBounds] = useState<[number, number] | null>(null);
+
+  const inputs = useMemo(() => ({ assumptions, personal }), [assumptions, personal]);
+  const metrics = useMemo(() => getOutputMetrics(scenario), [scenario]);
+  const metric = metrics.find((candidate) => candidate.id === metricId) ?? metrics[0];
+  const variables = useMemo(
+    () => getInputVariables(inputs, scenario).filter((variable) => variable.source === 'assumptions'),
+    [inputs, scenario]
+  );
+  const variable: InputVariable = variables.find((candidate) => candidate.key === variableKey) ?? variables[0];
+  const searchBounds = useMemo(() => bounds ?? getDefaultBounds(inputs, variable), [bounds, inputs, variable]);
+
+  const result = useMemo(
+    () => solveForInput(inputs, scenario, metric, target, variable, searchBounds),
+    [inputs, scenario, metric, target, variable, searchBounds]
+  );
+
+  const targetScale = metric.format === 'percent' ? 100 : 1;
+  const current = getInputValue(inputs, variable);
+  const boundScale = isPercentInput(variable) ? 100 : 1;
+
+  const handleBoundChange = (index: 0 | 1, value: number) => {
+    const next: [number, number] = [...searchBounds];
+    next[index] = value / boundScale;
+    setBounds(next);
+  };
+
+  return (
+    <div className="space-y-4">
+      <SectionTitle icon={<Target />} title="Solve for…" />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <InputGroup label="Target Metric" id="goalSeekMetric">
+          <select
+            id="goalSeekMetric"
+            value={metric.id}
+            onChange={(e) => setMetricId(e.target.value)}
+            className="form-input"
+          >
+            {metrics.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+            ))}
+          </select>
+        </InputGroup>
+        <InputGroup label={`Target Value${metric.format === 'percent' ? ' (%)' : ''}`} id="goalSeekTarget">
+          <input
+            id="goalSeekTarget"
+            type="number"
+            value={Number((target * targetScale).toFixed(4))}
+            onChange={(e) => setTarget(Number(e.target.value) / targetScale)}
+            className="form-input"
+          />
+        </InputGroup>
+        <InputGroup label="By Changing" id="goalSeekVariable">
+          <select
+            id="goalSeekVariable"
+            value={variable.key}
+            onChange={(e) => {
+              setVariableKey(e.target.value);
+              setBounds(null);
+            }}
+            className="form-input"
+          >
+            {variables.map((candidate) => (
+              <option key={candidate.key} value={candidate.key}>{candidate.label}</option>
+            ))}
+          </select>
+        </InputGroup>
+        <div className="grid grid-cols-2 gap-2">
+          <InputGroup label={`From${boundScale === 100 ? ' (%)' : ''}`} id="goalSeekLower">
+            <input
+              id="goalSeekLower"
+              type="number"
+              value={Number((searchBounds[0] * boundScale).toFixed(4))}
+              onChange={(e) => handleBoundChange(0, Number(e.target.value))}
+              className="form-input"
+            />
+          </InputGroup>
+          <InputGroup label={`To${boundScale === 100 ? ' (%)' : ''}`} id="goalSeekUpper">
+            <input
+              id="goalSeekUpper"
+              type="number"
+              value={Number((searchBounds[1] * boundScale).toFixed(4))}
+              onChange={(e) => handleBoundChange(1, Number(e.target.value))}
+              className="form-input"
+            />
+          </InputGroup>
+        </div>
+      </div>
+
+      {result.solution === null ? (
+        <p className="text-sm text-red-600 dark:text-red-400">
+          No {variable.label} between {formatInputValue(variable, searchBounds[0])} and{' '}
+          {formatInputValue(variable, searchBounds[1])} gives {metric.label} of{' '}
+          {formatMetricValue(target, metric.format)}. Widen the bounds or change the target.
+        </p>
+      ) : (
+        <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+          <StatCard label={variable.label} value={formatInputValue(variable, result.solution)} />
+          <StatCard label="Current Value" value={formatInputValue(variable, current)} />
+          <StatCard label={metric.label} value={formatMetricValue(result.achieved ?? 0, metric.format)} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,16 +1,17 @@
 import React, { useState } from 'react';
-import { Home, BarChart3, BedDouble, Bath, Calendar } from 'lucide-react';
+import { Home, BarChart3, BedDouble, Bath, Calendar, Sheet } from 'lucide-react';
 import type { Property } from '../types';
 import { InputGroup } from './ui/InputGroup';
 
 interface HomePageProps {
   onAnalyze: (property: Property) => void;
+  onBatch: () => void;
 }
 
 /**
  * The initial landing page to enter property details.
  */
-export function HomePage({ onAnalyze }: HomePageProps) {
+export function HomePage({ onAnalyze, onBatch }: HomePageProps) {
   const [address, setAddress] = useState<string>('1247 Maple Grove Avenue, Portland, OR 97214');
   const [beds, setBeds] = useState<number>(3);
   const [baths, setBaths] = useState<number>(2);
@@ -93,6 +94,14 @@ export function HomePage({ onAnalyze }: HomePageProps) {
           Analyze Property
         </button>
       </form>
+
+      <button
+        onClick={onBatch}
+        className="w-full flex justify-center items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline"
+      >
+        <Sheet className="w-4 h-4 mr-1.5" />
+        Screen a CSV of listings
+      </button>
     </div>
   );
 }
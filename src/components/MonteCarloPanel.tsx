@@ -0,0 +1,298 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dices, Play, Plus, RotateCcw, Trash2, X } from 'lucide-react';
+import type { Assumptions, Distribution, InputDistribution, InputVariable, MonteCarloSimulation, PersonalInfo, Scenario } from '../types';
+import { MAX_TRIALS, getDefaultDistributions, runMonteCarlo, withDistributionKind } from '../utils/monteCarlo';
+import { getInputValue, getInputVariables, isPercentInput } from '../utils/inputs';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { getScenario, getScenarios } from '../scenarios';
+import { SectionTitle } from './ui/SectionTitle';
+import { InputGroup } from './ui/InputGroup';
+import { DrillDown } from './ui/DrillDown';
+
+interface MonteCarloPanelProps {
+  assumptions: Assumptions;
+  personal: PersonalInfo;
+}
+
+const DISTRIBUTION_LABELS: Record<Distribution['kind'], string> = {
+  uniform: 'Uniform',
+  triangular: 'Triangular',
+  normal: 'Normal',
+};
+
+const DISTRIBUTION_PARAMS: Record<Distribution['kind'], { key: string; label: string }[]> = {
+  uniform: [{ key: 'min', label: 'Min' }, { key: 'max', label: 'Max' }],
+  triangular: [{ key: 'min', label: 'Min' }, { key: 'mode', label: 'Most Likely' }, { key: 'max', label: 'Max' }],
+  normal: [{ key: 'mean', label: 'Mean' }, { key: 'stdDev', label: 'Std. Dev.' }],
+};
+
+const variableId = (variable: InputVariable): string => `${variable.source}.${variable.key}`;
+
+/**
+ * Monte Carlo simulation of Year 1 cash flow for every scenario: input
+ * distributions, percentile bands and a histogram.
+ */
+export function MonteCarloPanel({ assumptions, personal }: MonteCarloPanelProps) {
+  const inputs = { assumptions, personal };
+  // Only the user's edits are kept (null for a removed input); the defaults
+  // are rebuilt around the current assumptions
+  const [overrides, setOverrides] = useState<Record<string, InputDistribution | null>>({});
+  const [trials, setTrials] = useState<number>(2000);
+  const [seed, setSeed] = useState<number>(1);
+  const [simulation, setSimulation] = useState<MonteCarloSimulation | null>(null);
+  // Share of the trials the run in progress has completed, if one is running
+  const [progress, setProgress] = useState<number | null>(null);
+  const runRef = useRef<AbortController | null>(null);
+  const [histogramScenario, setHistogramScenario] = useState<Scenario>('rental');
+
+  const defaults = getDefaultDistributions(inputs);
+  const distributions = [
+    ...defaults.map((entry) => (variableId(entry.variable) in overrides ? overrides[variableId(entry.variable)] : entry)),
+    ...Object.entries(overrides)
+      .filter(([id]) => !defaults.some((entry) => variableId(entry.variable) === id))
+      .map(([, entry]) => entry),
+  ].filter((entry): entry is InputDistribution => entry !== null);
+
+  const unused = getInputVariables(inputs).filter(
+    (variable) => !distributions.some((entry) => variableId(entry.variable) === variableId(variable))
+  );
+
+  // A run still going when the panel closes is abandoned
+  useEffect(() => () => runRef.current?.abort(), []);
+
+  const handleRun = async () => {
+    const controller = new AbortController();
+    runRef.current = controller;
+    setProgress(0);
+    const scenarios = getScenarios().map((definition) => definition.id);
+    const result = await runMonteCarlo(inputs, distributions, scenarios, trials, seed, {
+      onProgress: (completed, total) => setProgress(completed / total),
+      signal: controller.signal,
+    });
+    if (!result) return;
+    runRef.current = null;
+    setProgress(null);
+    setSimulation(result);
+  };
+
+  const handleCancel = () => {
+    runRef.current?.abort();
+    runRef.current = null;
+    setProgress(null);
+  };
+
+  const setOverride = (variable: InputVariable, entry: InputDistribution | null) => {
+    setOverrides((prev) => ({ ...prev, [variableId(variable)]: entry }));
+  };
+
+  const handleKindChange = (entry: InputDistribution, kind: Distribution['kind']) => {
+    setOverride(entry.variable, { ...entry, distribution: withDistributionKind(entry.distribution, kind) });
+  };
+
+  const handleParamChange = (entry: InputDistribution, key: string, value: number) => {
+    setOverride(entry.variable, { ...entry, distribution: { ...entry.distribution, [key]: value } });
+  };
+
+  const handleAdd = (id: string) => {
+    const variable = unused.find((candidate) => variableId(candidate) === id);
+    if (!variable) return;
+    const value = getInputValue(inputs, variable);
+    setOverride(variable, { variable, distribution: { kind: 'triangular', min: value * 0.9, mode: value, max: value * 1.1 } });
+  };
+
+  const handleRemove = (entry: InputDistribution) => {
+    setOverride(entry.variable, null);
+  };
+
+  const histogram = simulation?.results.find((result) => result.scenario === histogramScenario);
+  const maxCount = Math.max(1, ...(histogram?.histogram.map((bin) => bin.count) ?? []));
+  // Common scale for the percentile bands
+  const bandMin = Math.min(0, ...(simulation?.results.map((result) => result.p5) ?? []));
+  const bandMax = Math.max(0, ...(simulation?.results.map((result) => result.p95) ?? []));
+  const bandPosition = (value: number) => `${((value - bandMin) / (bandMax - bandMin || 1)) * 100}%`;
+
+  return (
+    <div className="space-y-4">
+      <SectionTitle icon={<Dices />} title="Monte Carlo Simulation" />
+
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-4 items-end">
+        <InputGroup label="Trials" id="monteCarloTrials">
+          <input
+            id="monteCarloTrials"
+            type="number"
+            value={trials}
+            onChange={(e) => setTrials(Math.min(MAX_TRIALS, Number(e.target.value)))}
+            className="form-input"
+            step="500"
+            min="1"
+            max={MAX_TRIALS}
+          />
+        </InputGroup>
+        <InputGroup label="Seed" id="monteCarloSeed">
+          <input
+            id="monteCarloSeed"
+            type="number"
+            value={seed}
+            onChange={(e) => setSeed(Number(e.target.value))}
+            className="form-input"
+            step="1"
+          />
+        </InputGroup>
+        {progress === null ? (
+          <button
+            onClick={handleRun}
+            className="flex items-center justify-center py-2 px-3 rounded-lg text-sm font-medium text-white bg-blue-600 hover:bg-blue-700 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <Play className="w-4 h-4 mr-1.5" />
+            Run Simulation
+          </button>
+        ) : (
+          <button
+            onClick={handleCancel}
+            className="flex items-center justify-center py-2 px-3 rounded-lg text-sm font-medium text-gray-700 dark:text-gray-300 bg-gray-100 dark:bg-gray-700 hover:bg-gray-200 dark:hover:bg-gray-600 focus:outline-none focus:ring-2 focus:ring-blue-500"
+          >
+            <X className="w-4 h-4 mr-1.5" />
+            Cancel ({formatPercent(progress)})
+          </button>
+        )}
+      </div>
+
+      <DrillDown title={`Input Distributions (${distributions.length})`}>
+        <div className="space-y-3">
+          {distributions.map((entry) => {
+            const percent = isPercentInput(entry.variable);
+            const scale = percent ? 100 : 1;
+            return (
+              <div key={variableId(entry.variable)} className="space-y-2 border-b border-dashed border-gray-200 dark:border-gray-700 pb-3">
+                <div className="flex items-center space-x-2">
+                  <span className="flex-1 font-medium">{entry.variable.label}{percent && ' (%)'}</span>
+                  <select
+                    value={entry.distribution.kind}
+                    onChange={(e) => handleKindChange(entry, e.target.value as Distribution['kind'])}
+                    className="form-input w-36"
+                    aria-label="Distribution"
+                  >
+                    {(Object.keys(DISTRIBUTION_LABELS) as Distribution['kind'][]).map((kind) => (
+                      <option key={kind} value={kind}>{DISTRIBUTION_LABELS[kind]}</option>
+                    ))}
+                  </select>
+                  <button
+                    onClick={() => handleRemove(entry)}
+                    className="p-2 text-gray-400 hover:text-red-600"
+                    aria-label={`Remove ${entry.variable.label}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
+                <div className="grid grid-cols-3 gap-2">
+                  {DISTRIBUTION_PARAMS[entry.distribution.kind].map(({ key, label }) => (
+                    <label key={key} className="text-xs text-gray-500 dark:text-gray-400">
+                      {label}
+                      <input
+                        type="number"
+                        value={Number((Number((entry.distribution as Record<string, unknown>)[key]) * scale).toFixed(4))}
+                        onChange={(e) => handleParamChange(entry, key, Number(e.target.value) / scale)}
+                        className="form-input"
+                      />
+                    </label>
+                  ))}
+                </div>
+              </div>
+            );
+          })}
+          <div className="flex items-center space-x-2">
+            <Plus className="w-4 h-4 text-blue-600 dark:text-blue-400" />
+            <select value="" onChange={(e) => handleAdd(e.target.value)} className="form-input" aria-label="Add input">
+              <option value="">Add an input…</option>
+              {unused.map((variable) => (
+                <option key={variableId(variable)} value={variableId(variable)}>{variable.label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setOverrides({})}
+              className="flex items-center text-sm font-medium text-blue-600 dark:text-blue-400 hover:underline whitespace-nowrap"
+            >
+              <RotateCcw className="w-4 h-4 mr-1" />
+              Reset to Defaults
+            </button>
+          </div>
+        </div>
+      </DrillDown>
+
+      {simulation && (
+        <>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-right dark:text-gray-300">
+              <thead>
+                <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                  <th className="py-2 text-left font-medium">Year 1 Cash Flow</th>
+                  <th className="py-2 font-medium">P5</th>
+                  <th className="py-2 font-medium">Median</th>
+                  <th className="py-2 font-medium">P95</th>
+                  <th className="py-2 font-medium w-1/3">P5 – P25 – P75 – P95</th>
+                  <th className="py-2 font-medium">P(&lt; $0)</th>
+                </tr>
+              </thead>
+              <tbody>
+                {simulation.results.map((result) => (
+                  <tr
+                    key={result.scenario}
+                    onClick={() => setHistogramScenario(result.scenario)}
+                    className={`border-b border-dashed border-gray-200 dark:border-gray-700 cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                      result.scenario === histogramScenario ? 'font-semibold dark:text-white' : ''
+                    }`}
+                  >
+                    <td className="py-2 text-left">{getScenario(result.scenario).label}</td>
+                    <td className="py-2">{formatCurrency(result.p5)}</td>
+                    <td className="py-2">{formatCurrency(result.p50)}</td>
+                    <td className="py-2">{formatCurrency(result.p95)}</td>
+                    <td className="py-2 pl-4">
+                      <div className="relative h-4">
+                        <div className="absolute inset-y-0 border-l border-gray-400 dark:border-gray-500" style={{ left: bandPosition(0) }} />
+                        <div
+                          className="absolute inset-y-1 bg-blue-200 dark:bg-blue-900"
+                          style={{ left: bandPosition(result.p5), right: `calc(100% - ${bandPosition(result.p95)})` }}
+                        />
+                        <div
+                          className="absolute inset-y-0 bg-blue-500"
+                          style={{ left: bandPosition(result.p25), right: `calc(100% - ${bandPosition(result.p75)})` }}
+                        />
+                        <div className="absolute inset-y-0 w-0.5 bg-gray-900 dark:bg-white" style={{ left: bandPosition(result.p50) }} />
+                      </div>
+                    </td>
+                    <td className={`py-2 ${result.probabilityNegative > 0.5 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                      {formatPercent(result.probabilityNegative)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {histogram && (
+            <div className="space-y-1 text-sm dark:text-gray-300">
+              <p className="text-gray-500 dark:text-gray-400">
+                {getScenario(histogram.scenario).label}: Year 1 cash flow across {simulation.trials.toLocaleString('en-US')} trials (seed {simulation.seed})
+              </p>
+              <div className="flex items-end h-40 space-x-px">
+                {histogram.histogram.map((bin, i) => (
+                  <div
+                    key={i}
+                    className={`flex-1 ${bin.to <= 0 ? 'bg-red-400 dark:bg-red-500' : 'bg-blue-500'}`}
+                    style={{ height: `${(bin.count / maxCount) * 100}%` }}
+                    title={`${formatCurrency(bin.from)} to ${formatCurrency(bin.to)}: ${bin.count}`}
+                  />
+                ))}
+              </div>
+              <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+                <span>{formatCurrency(histogram.histogram[0].from)}</span>
+                <span>Mean {formatCurrency(histogram.mean)}</span>
+                <span>{formatCurrency(histogram.histogram[histogram.histogram.length - 1].to)}</span>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
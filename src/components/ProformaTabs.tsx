@@ -1,6 +1,7 @@
 import React from 'react';
-import { Briefcase, Home, User } from 'lucide-react';
-import type { Scenario, Proforma, PersonalInfo } from '../types';
+import type { Scenario, Proforma, PersonalInfo, Projection, AmortizationRow, DepreciationYear } from '../types';
+import { getScenarios } from '../scenarios';
+import { ScenarioIcon } from './ui/ScenarioIcon';
 import { ProformaDisplay } from './ProformaDisplay';
 
 interface ProformaTabsProps {
@@ -8,17 +9,20 @@ interface ProformaTabsProps {
   setScenario: React.Dispatch<React.SetStateAction<Scenario>>;
   proforma: Proforma;
   personal: PersonalInfo;
+  projection: Projection;
+  amortization: AmortizationRow[];
+  depreciationSchedule: DepreciationYear[];
 }
 
 /**
  * The tabbed interface for switching scenarios.
  */
-export function ProformaTabs({ scenario, setScenario, proforma, personal }: ProformaTabsProps) {
-  const tabs = [
-    { id: 'rental' as Scenario, name: 'Long-Term Rental', icon: <Briefcase /> },
-    { id: 'airbnb' as Scenario, name: 'Short-Term (Airbnb)', icon: <Home /> },
-    { id: 'owner' as Scenario, name: 'Owner-Occupied', icon: <User /> },
-  ];
+export function ProformaTabs({ scenario, setScenario, proforma, personal, projection, amortization, depreciationSchedule }: ProformaTabsProps) {
+  const tabs = getScenarios().map((definition) => ({
+    id: definition.id,
+    name: definition.label,
+    icon: <ScenarioIcon name={definition.icon} />,
+  }));
 
   return (
     <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg overflow-hidden">
@@ -48,7 +52,14 @@ export function ProformaTabs({ scenario, setScenario, proforma, personal }: Prof
 
       {/* Tab Content */}
       <div className="p-5 sm:p-6">
-        <ProformaDisplay proforma={proforma} scenario={scenario} personal={personal} />
+        <ProformaDisplay
+          proforma={proforma}
+          scenario={scenario}
+          personal={personal}
+          projection={projection}
+          amortization={amortization}
+          depreciationSchedule={depreciationSchedule}
+        />
       </div>
     </div>
   );
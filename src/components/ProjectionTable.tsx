@@ -0,0 +1,180 @@
+import React from 'react';
+import { LineChart } from 'lucide-react';
+import type { Projection } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { getScenario } from '../scenarios';
+import { StatCard } from './ui/StatCard';
+import { SectionTitle } from './ui/SectionTitle';
+import { DrillDown } from './ui/DrillDown';
+import { LineItem } from './ui/LineItem';
+
+interface ProjectionTableProps {
+  projection: Projection;
+  // Show purchase-year dollars instead of nominal
+  real?: boolean;
+}
+
+/**
+ * Year-by-year hold period projection with total-return metrics.
+ */
+export function ProjectionTable({ projection, real = false }: ProjectionTableProps) {
+  const definition = getScenario(projection.scenario);
+  const labels = definition.display.projection;
+  const { sale } = projection;
+  const finalYear = projection.years[projection.years.length - 1];
+  const hasCapex = projection.years.some((row) => row.proforma.capexReserve > 0 || row.capexSpend > 0);
+  const returns = real ? projection.real : projection;
+  // A value at a year's price level, in the dollars shown
+  const shown = (value: number, priceLevel: number) => (real ? value / priceLevel : value);
+
+  return (
+    <div className="space-y-4">
+      <SectionTitle icon={<LineChart />} title={`Hold Period Projection (${projection.holdPeriodYears} Years${real ? ', Purchase-Year Dollars' : ''})`} />
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <StatCard
+          label="IRR"
+          value={isFinite(returns.irr) ? formatPercent(returns.irr) : 'N/A'}
+          good={returns.irr > 0}
+          bad={returns.irr < 0}
+        />
+        <StatCard
+          label="NPV"
+          value={formatCurrency(returns.npv)}
+          good={returns.npv > 0}
+          bad={returns.npv < 0}
+          tooltip="Discounted at your opportunity cost rate."
+        />
+        <StatCard
+          label="Equity Multiple"
+          value={`${returns.equityMultiple.toFixed(2)}x`}
+          good={returns.equityMultiple > 1}
+          bad={returns.equityMultiple < 1}
+        />
+        <StatCard
+          label={labels.cumulativeLabel}
+          value={formatCurrency(returns.cumulativeCashFlow)}
+          good={returns.cumulativeCashFlow > 0}
+          bad={returns.cumulativeCashFlow < 0}
+        />
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-right dark:text-gray-300">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+              <th className="py-2 text-left font-medium">Year</th>
+              <th className="py-2 font-medium">{labels.incomeLabel}</th>
+              <th className="py-2 font-medium">{labels.cashFlowLabel}</th>
+              <th className="py-2 font-medium">Cumulative</th>
+              {hasCapex && <th className="py-2 font-medium">CapEx</th>}
+              <th className="py-2 font-medium">Property Value</th>
+              <th className="py-2 font-medium">Loan Balance</th>
+              <th className="py-2 font-medium">Equity</th>
+            </tr>
+          </thead>
+          <tbody>
+            {projection.years.map((row) => {
+              const cashFlow = shown(row.cashFlow, row.priceLevel);
+              const cumulativeCashFlow = real ? row.realCumulativeCashFlow : row.cumulativeCashFlow;
+              return (
+                <tr key={row.year} className="border-b border-dashed border-gray-200 dark:border-gray-700">
+                  <td className="py-2 text-left">{row.year}</td>
+                  <td className="py-2">
+                    {formatCurrency(shown(labels.income(row.proforma), row.priceLevel))}
+                  </td>
+                  <td className={`py-2 ${cashFlow < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>{formatCurrency(cashFlow)}</td>
+                  <td className={`py-2 ${cumulativeCashFlow < 0 ? 'text-red-600 dark:text-red-400' : ''}`}>{formatCurrency(cumulativeCashFlow)}</td>
+                  {hasCapex && (
+                    <td className={`py-2 ${row.capexSpend > 0 ? 'text-red-600 dark:text-red-400' : ''}`}>
+                      {row.capexSpend > 0 ? `(${formatCurrency(shown(row.capexSpend, row.priceLevel))})` : '—'}
+                    </td>
+                  )}
+                  <td className="py-2">{formatCurrency(shown(row.propertyValue, row.priceLevel))}</td>
+                  <td className="py-2">{formatCurrency(shown(row.loanBalance, row.priceLevel))}</td>
+                  <td className="py-2 font-semibold dark:text-white">{formatCurrency(shown(row.equity, row.priceLevel))}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+
+      {hasCapex && (
+        <DrillDown title="Capital Expenditure Timeline">
+          {projection.years.flatMap((row) =>
+            row.capexReplacements.map((replacement) => (
+              <LineItem
+                key={`${row.year}-${replacement.label}`}
+                label={`Year ${row.year}: ${replacement.label}`}
+                value={formatCurrency(shown(replacement.cost, row.priceLevel))}
+                isNegative
+                parens
+              />
+            ))
+          )}
+          <LineItem
+            label="Reserved Over Hold"
+            value={formatCurrency(projection.years.reduce((sum, row) => sum + shown(row.proforma.capexReserve, row.priceLevel), 0))}
+          />
+          <LineItem
+            label="Spent Over Hold"
+            value={formatCurrency(projection.years.reduce((sum, row) => sum + shown(row.capexSpend, row.priceLevel), 0))}
+            isNegative
+            parens
+          />
+          <LineItem
+            label={`Reserve Balance (End of Year ${finalYear.year})`}
+            value={formatCurrency(shown(finalYear.capexReserveBalance, finalYear.priceLevel))}
+            isBold
+            isNegative={finalYear.capexReserveBalance < 0}
+            parens={finalYear.capexReserveBalance < 0}
+          />
+        </DrillDown>
+      )}
+
+      <DrillDown title={`Sale at End of Year ${sale.saleYear}`}>
+        <LineItem label="Sale Price" value={formatCurrency(shown(sale.salePrice, finalYear.priceLevel))} />
+        <LineItem label="Agent Commission" value={formatCurrency(shown(sale.sellingCommission, finalYear.priceLevel))} isNegative parens />
+        <LineItem label="Transfer Tax" value={formatCurrency(shown(sale.transferTax, finalYear.priceLevel))} isNegative parens />
+        <LineItem label="Loan Payoff" value={formatCurrency(shown(sale.loanBalance, finalYear.priceLevel))} isNegative parens />
+        <LineItem label="Net Sale Proceeds (Before Tax)" value={formatCurrency(shown(sale.netSaleProceeds, finalYear.priceLevel))} isBold />
+        <LineItem label="Adjusted Basis" value={formatCurrency(shown(sale.adjustedBasis, finalYear.priceLevel))} />
+        <LineItem label="Total Gain" value={formatCurrency(shown(sale.totalGain, finalYear.priceLevel))} />
+        {sale.accumulatedDepreciation === 0 ? (
+          <LineItem label="Primary Residence Exclusion" value={formatCurrency(shown(sale.exclusion, finalYear.priceLevel))} />
+        ) : (
+          <>
+            <LineItem label="Depreciation Taken" value={formatCurrency(shown(sale.accumulatedDepreciation, finalYear.priceLevel))} />
+            {sale.section1245Recapture > 0 && (
+              <LineItem
+                label="§1245 Recapture Tax (Cost Seg & Furnishings, Ordinary Rates)"
+                value={formatCurrency(shown(sale.section1245RecaptureTax, finalYear.priceLevel))}
+                isNegative
+                parens
+              />
+            )}
+            <LineItem
+              label="§1250 Recapture Tax (Building, 25%)"
+              value={formatCurrency(shown(sale.section1250RecaptureTax, finalYear.priceLevel))}
+              isNegative
+              parens
+            />
+            {sale.exclusion > 0 && (
+              <LineItem label="Primary Residence Exclusion (Owner-Occupied Share)" value={formatCurrency(shown(sale.exclusion, finalYear.priceLevel))} />
+            )}
+          </>
+        )}
+        <LineItem label="Taxable Capital Gain" value={formatCurrency(shown(sale.capitalGain, finalYear.priceLevel))} />
+        <LineItem label="Capital Gains Tax" value={formatCurrency(shown(sale.capitalGainsTax, finalYear.priceLevel))} isNegative parens />
+        {sale.releasedSuspendedLosses > 0 && (
+          <>
+            <LineItem label="Suspended Passive Losses Released" value={formatCurrency(shown(sale.releasedSuspendedLosses, finalYear.priceLevel))} />
+            <LineItem label="Tax Saved by Released Losses" value={formatCurrency(shown(sale.suspendedLossTaxBenefit, finalYear.priceLevel))} />
+          </>
+        )}
+        <LineItem label="After-Tax Sale Proceeds" value={formatCurrency(shown(sale.afterTaxSaleProceeds, finalYear.priceLevel))} isBold />
+      </DrillDown>
+    </div>
+  );
+}
@@ -3,9 +3,20 @@ import { ArrowLeft, Settings } from 'lucide-react';
 import type { Property, Assumptions, PersonalInfo, Scenario } from '../types';
 import { defaultPersonal } from '../utils/defaults';
 import { calculateProforma } from '../utils/calculations';
+import { calculateDepreciationSchedule, calculateProjection } from '../utils/projections';
+import { buildLoanSchedule } from '../utils/amortization';
+import { resolvePurchaseLoan } from '../utils/loans';
+import { validateInputs } from '../utils/validation';
+import { getScenario } from '../scenarios';
 import { ThemeToggle } from './ui/ThemeToggle';
 import { AssumptionModal } from './AssumptionModal';
 import { ProformaTabs } from './ProformaTabs';
+import { SensitivityPanel } from './SensitivityPanel';
+import { MonteCarloPanel } from './MonteCarloPanel';
+import { GoalSeekPanel } from './GoalSeekPanel';
+import { UnderwritingPanel } from './UnderwritingPanel';
+import { RentVsBuyPanel } from './RentVsBuyPanel';
+import { ValidationBanner } from './ValidationBanner';
 
 interface PropertyPageProps {
   property: Property;
@@ -24,10 +35,21 @@ export function PropertyPage({ property, initialAssumptions, onBack, isDarkMode,
   const [scenario, setScenario] = useState<Scenario>('rental');
   const [showAssumptions, setShowAssumptions] = useState<boolean>(false);
 
-  const proforma = useMemo(() => {
-    return calculateProforma(assumptions, personal, scenario);
+  const validation = useMemo(() => {
+    return validateInputs(assumptions, personal, [scenario]);
   }, [assumptions, personal, scenario]);
 
+  // Inconsistent inputs (e.g. a 0-year loan) would give quietly wrong results, so nothing is calculated
+  const analysis = useMemo(() => {
+    if (validation.errors.length > 0) return null;
+    return {
+      proforma: calculateProforma(assumptions, personal, scenario),
+      projection: calculateProjection(assumptions, personal, scenario),
+      depreciationSchedule: calculateDepreciationSchedule(assumptions, personal, scenario),
+      amortization: buildLoanSchedule(resolvePurchaseLoan(assumptions).terms),
+    };
+  }, [assumptions, personal, scenario, validation]);
+
   return (
     <div className="flex flex-col h-screen">
       {/* Header */}
@@ -68,13 +90,40 @@ export function PropertyPage({ property, initialAssumptions, onBack, isDarkMode,
 
       {/* Main Content */}
       <main className="flex-1 overflow-y-auto p-4 sm:p-6 lg:p-8">
-        <div className="max-w-4xl mx-auto">
-          <ProformaTabs
-            scenario={scenario}
-            setScenario={setScenario}
-            proforma={proforma}
-            personal={personal}
-          />
+        <div className="max-w-4xl mx-auto space-y-6">
+          <ValidationBanner validation={validation} onFix={() => setShowAssumptions(true)} />
+          {analysis && (
+            <>
+              <ProformaTabs
+                scenario={scenario}
+                setScenario={setScenario}
+                proforma={analysis.proforma}
+                personal={personal}
+                projection={analysis.projection}
+                amortization={analysis.amortization}
+                depreciationSchedule={analysis.depreciationSchedule}
+              />
+              {'underwriting' in analysis.proforma && (
+                <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 sm:p-6">
+                  <UnderwritingPanel underwriting={analysis.proforma.underwriting} assumptions={assumptions} />
+                </div>
+              )}
+              {getScenario(scenario).rentVsBuy && (
+                <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 sm:p-6">
+                  <RentVsBuyPanel assumptions={assumptions} personal={personal} />
+                </div>
+              )}
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 sm:p-6">
+                <SensitivityPanel assumptions={assumptions} personal={personal} scenario={scenario} />
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 sm:p-6">
+                <GoalSeekPanel assumptions={assumptions} personal={personal} scenario={scenario} />
+              </div>
+              <div className="bg-white dark:bg-gray-800 rounded-xl shadow-lg p-5 sm:p-6">
+                <MonteCarloPanel assumptions={assumptions} personal={personal} />
+              </div>
+            </>
+          )}
         </div>
       </main>
 
@@ -85,6 +134,7 @@ export function PropertyPage({ property, initialAssumptions, onBack, isDarkMode,
           setAssumptions={setAssumptions}
           personal={personal}
           setPersonal={setPersonal}
+          scenario={scenario}
           onClose={() => setShowAssumptions(false)}
         />
       )}
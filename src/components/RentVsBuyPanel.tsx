@@ -0,0 +1,130 @@
+import React, { useMemo, useState } from 'react';
+import { Scale } from 'lucide-react';
+import type { Assumptions, PersonalInfo } from '../types';
+import { calculateRentVsBuy } from '../utils/rentVsBuy';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { SectionTitle } from './ui/SectionTitle';
+import { InputGroup } from './ui/InputGroup';
+import { StatCard } from './ui/StatCard';
+import { DrillDown } from './ui/DrillDown';
+
+interface RentVsBuyPanelProps {
+  assumptions: Assumptions;
+  personal: PersonalInfo;
+}
+
+/**
+ * Net worth from buying vs. renting and investing the difference, year by year.
+ */
+export function RentVsBuyPanel({ assumptions, personal }: RentVsBuyPanelProps) {
+  const [years, setYears] = useState<number>(30);
+
+  const rentVsBuy = useMemo(() => calculateRentVsBuy(assumptions, personal, years), [assumptions, personal, years]);
+  const finalYear = rentVsBuy.years[rentVsBuy.years.length - 1];
+  const maxNetWorth = Math.max(1, ...rentVsBuy.years.flatMap((row) => [row.ownerNetWorth, row.renterNetWorth]));
+
+  return (
+    <div className="space-y-4">
+      <SectionTitle icon={<Scale />} title="Rent vs. Buy" />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <InputGroup label="Years" id="rentVsBuyYears">
+          <input
+            id="rentVsBuyYears"
+            type="number"
+            value={years}
+            onChange={(e) => setYears(Math.min(50, Math.max(1, Number(e.target.value))))}
+            className="form-input"
+            step="1"
+            min="1"
+            max="50"
+          />
+        </InputGroup>
+        <p className="text-sm text-gray-500 dark:text-gray-400 self-end">
+          The renter invests the {formatCurrency(rentVsBuy.initialInvestment)} down payment and closing costs, and whichever
+          path costs less each year invests the difference, at {formatPercent(personal.opportunityCostRate)}.
+        </p>
+      </div>
+
+      <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+        <StatCard
+          label="Breakeven Year"
+          value={rentVsBuy.breakevenYear === null ? 'Never' : `Year ${rentVsBuy.breakevenYear}`}
+          good={rentVsBuy.breakevenYear !== null}
+          bad={rentVsBuy.breakevenYear === null}
+          tooltip="First year buying leaves you with more net worth than renting."
+        />
+        <StatCard label={`Net Worth Buying (Yr ${finalYear.year})`} value={formatCurrency(finalYear.ownerNetWorth)} />
+        <StatCard label={`Net Worth Renting (Yr ${finalYear.year})`} value={formatCurrency(finalYear.renterNetWorth)} />
+      </div>
+
+      {/* Net worth by year */}
+      <div className="text-sm dark:text-gray-300">
+        <div className="flex text-gray-500 dark:text-gray-400 mb-2">
+          <span className="inline-block w-3 h-3 rounded-sm bg-blue-500 mr-1 self-center" />
+          Buy
+          <span className="inline-block w-3 h-3 rounded-sm bg-amber-400 ml-3 mr-1 self-center" />
+          Rent
+        </div>
+        <div className="flex items-end h-40 space-x-1">
+          {rentVsBuy.years.map((row) => (
+            <div
+              key={row.year}
+              className="flex-1 flex items-end h-full"
+              title={`Year ${row.year}: buy ${formatCurrency(row.ownerNetWorth)}, rent ${formatCurrency(row.renterNetWorth)}`}
+            >
+              <div className="flex-1 bg-blue-500" style={{ height: `${(Math.max(0, row.ownerNetWorth) / maxNetWorth) * 100}%` }} />
+              <div className="flex-1 bg-amber-400" style={{ height: `${(Math.max(0, row.renterNetWorth) / maxNetWorth) * 100}%` }} />
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400">
+          <span>Year 1</span>
+          <span>Year {finalYear.year}</span>
+        </div>
+      </div>
+
+      <DrillDown title="Year-by-Year Net Worth">
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm text-right dark:text-gray-300">
+            <thead>
+              <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+                <th className="py-2 text-left font-medium">Year</th>
+                <th className="py-2 font-medium">Rent</th>
+                <th className="py-2 font-medium">Cost of Owning</th>
+                <th className="py-2 font-medium">Home Equity</th>
+                <th className="py-2 font-medium">Owner Investments</th>
+                <th className="py-2 font-medium">Net Worth (Buy)</th>
+                <th className="py-2 font-medium">Net Worth (Rent)</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rentVsBuy.years.map((row) => (
+                <tr
+                  key={row.year}
+                  className={`border-b border-dashed border-gray-200 dark:border-gray-700 ${
+                    row.year === rentVsBuy.breakevenYear ? 'font-semibold dark:text-white' : ''
+                  }`}
+                >
+                  <td className="py-2 text-left">{row.year}</td>
+                  <td className="py-2">{formatCurrency(row.rent)}</td>
+                  <td className="py-2">{formatCurrency(row.ownerCost)}</td>
+                  <td className="py-2">{formatCurrency(row.homeEquity)}</td>
+                  <td className="py-2">{formatCurrency(row.ownerInvestments)}</td>
+                  <td className={`py-2 ${row.ownerNetWorth >= row.renterNetWorth ? 'text-green-600 dark:text-green-400' : ''}`}>
+                    {formatCurrency(row.ownerNetWorth)}
+                  </td>
+                  <td className="py-2">{formatCurrency(row.renterNetWorth)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-sm text-gray-500 dark:text-gray-400 mt-2">
+          Home equity is what a sale at the end of the year would leave after selling costs, the loan payoff and any tax on
+          the gain. Cost of owning is after tax savings and includes maintenance and capex replacements as they come due.
+        </p>
+      </DrillDown>
+    </div>
+  );
+}
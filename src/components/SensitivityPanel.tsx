@@ -0,0 +1,173 @@
+import React, { useMemo, useState } from 'react';
+import { SlidersHorizontal, Table } from 'lucide-react';
+import type { Assumptions, InputVariable, PersonalInfo, Scenario } from '../types';
+import { calculateSensitivity, calculateSensitivityTable } from '../utils/sensitivity';
+import { formatInputValue, getInputVariables } from '../utils/inputs';
+import { formatMetricValue, getOutputMetrics } from '../utils/metrics';
+import { SectionTitle } from './ui/SectionTitle';
+import { InputGroup } from './ui/InputGroup';
+
+interface SensitivityPanelProps {
+  assumptions: Assumptions;
+  personal: PersonalInfo;
+  scenario: Scenario;
+}
+
+// Bars shown in the tornado chart
+const TORNADO_BARS = 12;
+
+const variableId = (variable: InputVariable): string => `${variable.source}.${variable.key}`;
+
+/**
+ * Tornado chart ranking every input by how much it moves the chosen metric,
+ * and a two-variable data table.
+ */
+export function SensitivityPanel({ assumptions, personal, scenario }: SensitivityPanelProps) {
+  const [metricId, setMetricId] = useState<string>('annual-cash-flow');
+  const [flexPercent, setFlexPercent] = useState<number>(10);
+  const [rowId, setRowId] = useState<string>('assumptions.purchasePrice');
+  const [columnId, setColumnId] = useState<string>('assumptions.interestRate');
+
+  const inputs = useMemo(() => ({ assumptions, personal }), [assumptions, personal]);
+  const metrics = useMemo(() => getOutputMetrics(scenario), [scenario]);
+  const metric = metrics.find((candidate) => candidate.id === metricId) ?? metrics[0];
+  const variables = useMemo(() => getInputVariables(inputs, scenario), [inputs, scenario]);
+  const rowVariable = variables.find((variable) => variableId(variable) === rowId) ?? variables[0];
+  const columnVariable = variables.find((variable) => variableId(variable) === columnId) ?? variables[1];
+  const flex = Math.max(0, flexPercent) / 100;
+
+  const sensitivity = useMemo(
+    () => calculateSensitivity(inputs, scenario, metric, flex),
+    [inputs, scenario, metric, flex]
+  );
+  const table = useMemo(
+    () => calculateSensitivityTable(inputs, scenario, metric, rowVariable, columnVariable, flex),
+    [inputs, scenario, metric, rowVariable, columnVariable, flex]
+  );
+
+  const bars = sensitivity.bars.slice(0, TORNADO_BARS);
+  const maxDeviation = Math.max(
+    ...bars.map((bar) => Math.max(Math.abs(bar.lowOutput - sensitivity.baseOutput), Math.abs(bar.highOutput - sensitivity.baseOutput))),
+    1e-9
+  );
+  // Width of a bar segment from the center line, as a share of half the chart
+  const segment = (output: number) => {
+    const deviation = output - sensitivity.baseOutput;
+    const width = `${(Math.abs(deviation) / maxDeviation) * 50}%`;
+    return deviation < 0 ? { right: '50%', width } : { left: '50%', width };
+  };
+
+  const variableSelect = (id: string, value: InputVariable, onChange: (id: string) => void) => (
+    <select id={id} value={variableId(value)} onChange={(e) => onChange(e.target.value)} className="form-input">
+      {variables.map((variable) => (
+        <option key={variableId(variable)} value={variableId(variable)}>{variable.label}</option>
+      ))}
+    </select>
+  );
+
+  return (
+    <div className="space-y-4">
+      <SectionTitle icon={<SlidersHorizontal />} title="Sensitivity Analysis" />
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <InputGroup label="Output Metric" id="sensitivityMetric">
+          <select
+            id="sensitivityMetric"
+            value={metric.id}
+            onChange={(e) => setMetricId(e.target.value)}
+            className="form-input"
+          >
+            {metrics.map((candidate) => (
+              <option key={candidate.id} value={candidate.id}>{candidate.label}</option>
+            ))}
+          </select>
+        </InputGroup>
+        <InputGroup label="Flex Each Input by ± (%)" id="sensitivityFlex">
+          <input
+            id="sensitivityFlex"
+            type="number"
+            value={flexPercent}
+            onChange={(e) => setFlexPercent(Number(e.target.value))}
+            className="form-input"
+            step="5"
+            min="0"
+          />
+        </InputGroup>
+      </div>
+
+      {/* Tornado Chart */}
+      <div className="text-sm dark:text-gray-300">
+        <div className="flex justify-between text-gray-500 dark:text-gray-400 mb-2">
+          <span>
+            <span className="inline-block w-3 h-3 rounded-sm bg-amber-400 mr-1 align-middle" />
+            Input −{flexPercent}%
+            <span className="inline-block w-3 h-3 rounded-sm bg-blue-500 ml-3 mr-1 align-middle" />
+            Input +{flexPercent}%
+          </span>
+          <span>Base: {formatMetricValue(sensitivity.baseOutput, metric.format)}</span>
+        </div>
+        {bars.length === 0 && <p className="text-gray-500 dark:text-gray-400">No input moves this metric.</p>}
+        {bars.map((bar) => (
+          <div key={variableId(bar.variable)} className="flex items-center py-1" title={`${formatInputValue(bar.variable, bar.lowInput)} → ${formatInputValue(bar.variable, bar.highInput)}`}>
+            <span className="w-1/3 pr-2 truncate">{bar.variable.label}</span>
+            <div className="relative w-2/3 h-5">
+              <div className="absolute inset-y-0 left-1/2 border-l border-gray-400 dark:border-gray-500" />
+              <div className="absolute inset-y-0 bg-amber-400 opacity-80" style={segment(bar.lowOutput)} />
+              <div className="absolute inset-y-0 bg-blue-500 opacity-80" style={segment(bar.highOutput)} />
+            </div>
+          </div>
+        ))}
+        {bars.length > 0 && (
+          <div className="flex text-xs text-gray-500 dark:text-gray-400">
+            <span className="w-1/3" />
+            <div className="w-2/3 flex justify-between">
+              <span>{formatMetricValue(sensitivity.baseOutput - maxDeviation, metric.format)}</span>
+              <span>{formatMetricValue(sensitivity.baseOutput + maxDeviation, metric.format)}</span>
+            </div>
+          </div>
+        )}
+      </div>
+
+      {/* Two-Variable Data Table */}
+      <SectionTitle icon={<Table />} title="Data Table" />
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+        <InputGroup label="Rows" id="sensitivityRow">
+          {variableSelect('sensitivityRow', rowVariable, setRowId)}
+        </InputGroup>
+        <InputGroup label="Columns" id="sensitivityColumn">
+          {variableSelect('sensitivityColumn', columnVariable, setColumnId)}
+        </InputGroup>
+      </div>
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-right dark:text-gray-300">
+          <thead>
+            <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+              <th className="py-2 text-left font-medium">{rowVariable.label} ↓ / {columnVariable.label} →</th>
+              {table.columnInputs.map((columnInput, j) => (
+                <th key={j} className="py-2 font-medium">{formatInputValue(columnVariable, columnInput)}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rowInputs.map((rowInput, i) => (
+              <tr key={i} className="border-b border-dashed border-gray-200 dark:border-gray-700">
+                <td className="py-2 text-left font-medium">{formatInputValue(rowVariable, rowInput)}</td>
+                {table.outputs[i].map((output, j) => (
+                  <td
+                    key={j}
+                    className={`py-2
+                      ${output < 0 ? 'text-red-600 dark:text-red-400' : ''}
+                      ${i === Math.floor(table.rowInputs.length / 2) && j === Math.floor(table.columnInputs.length / 2) ? 'font-semibold dark:text-white' : ''}
+                    `}
+                  >
+                    {formatMetricValue(output, metric.format)}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
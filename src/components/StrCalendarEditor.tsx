@@ -0,0 +1,70 @@
+import React from 'react';
+import type { StrCalendarMonth, ValidationIssue } from '../types';
+import { MONTH_NAMES } from '../utils/shortTermRental';
+import { DrillDown } from './ui/DrillDown';
+
+interface StrCalendarEditorProps {
+  title: string;
+  calendar: StrCalendarMonth[];
+  onChange: (calendar: StrCalendarMonth[]) => void;
+  issue?: ValidationIssue;
+}
+
+/**
+ * Month-by-month nightly rate and occupancy for a short-term rental. A
+ * validation issue shows beneath it.
+ */
+export function StrCalendarEditor({ title, calendar, onChange, issue }: StrCalendarEditorProps) {
+  const handleMonthChange = (index: number, key: keyof StrCalendarMonth, value: number) => {
+    onChange(calendar.map((month, i) => (i === index ? { ...month, [key]: value } : month)));
+  };
+
+  return (
+    <div>
+      <DrillDown title={title}>
+        <table className="w-full text-right">
+          <thead>
+            <tr className="text-gray-500 dark:text-gray-400">
+              <th className="py-1 text-left font-medium">Month</th>
+              <th className="py-1 font-medium">Nightly Rate</th>
+              <th className="py-1 font-medium">Occupancy %</th>
+            </tr>
+          </thead>
+          <tbody>
+            {calendar.map((month, i) => (
+              <tr key={MONTH_NAMES[i]}>
+                <td className="py-1 text-left">{MONTH_NAMES[i]}</td>
+                <td className="py-1 pl-2">
+                  <input
+                    type="number"
+                    value={Math.round(month.nightlyRate)}
+                    onChange={(e) => handleMonthChange(i, 'nightlyRate', Number(e.target.value))}
+                    className="form-input text-right"
+                    step="5"
+                    min="0"
+                  />
+                </td>
+                <td className="py-1 pl-2">
+                  <input
+                    type="number"
+                    value={Math.round(month.occupancyRate * 100)}
+                    onChange={(e) => handleMonthChange(i, 'occupancyRate', Math.min(100, Number(e.target.value)) / 100)}
+                    className="form-input text-right"
+                    step="1"
+                    min="0"
+                    max="100"
+                  />
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </DrillDown>
+      {issue && (
+        <p className={`text-xs mt-1 ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+          {issue.message}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,52 @@
+import type { StrIncome } from '../types';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { MONTH_NAMES } from '../utils/shortTermRental';
+
+interface StrMonthlyRevenueProps {
+  income: StrIncome;
+}
+
+/**
+ * Month-by-month short-term rental bookings and revenue.
+ */
+export function StrMonthlyRevenue({ income }: StrMonthlyRevenueProps) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="w-full text-right">
+        <thead>
+          <tr className="border-b border-gray-200 dark:border-gray-700 text-gray-500 dark:text-gray-400">
+            <th className="py-2 text-left font-medium">Month</th>
+            <th className="py-2 font-medium">Rate</th>
+            <th className="py-2 font-medium">Occupancy</th>
+            <th className="py-2 font-medium">Nights</th>
+            <th className="py-2 font-medium">Stays</th>
+            <th className="py-2 font-medium">Cleaning Fees</th>
+            <th className="py-2 font-medium">Revenue</th>
+          </tr>
+        </thead>
+        <tbody>
+          {income.months.map((month) => (
+            <tr key={month.month} className="border-b border-dashed border-gray-200 dark:border-gray-700">
+              <td className="py-1 text-left">{MONTH_NAMES[month.month - 1]}</td>
+              <td className="py-1">{formatCurrency(month.nightlyRate)}</td>
+              <td className="py-1">{formatPercent(month.occupancyRate)}</td>
+              <td className="py-1">{month.nightsBooked.toFixed(1)}</td>
+              <td className="py-1">{month.stays.toFixed(1)}</td>
+              <td className="py-1">{formatCurrency(month.cleaningFeeRevenue)}</td>
+              <td className="py-1">{formatCurrency(month.revenue)}</td>
+            </tr>
+          ))}
+          <tr className="font-semibold dark:text-white">
+            <td className="py-2 text-left">Total</td>
+            <td className="py-2" />
+            <td className="py-2" />
+            <td className="py-2">{income.nightsBooked.toFixed(0)}</td>
+            <td className="py-2">{income.stays.toFixed(0)}</td>
+            <td className="py-2">{formatCurrency(income.cleaningFeeRevenue)}</td>
+            <td className="py-2">{formatCurrency(income.grossRevenue)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,45 @@
+import React from 'react';
+import { ClipboardCheck } from 'lucide-react';
+import type { Assumptions, UnderwritingMetrics } from '../types';
+import { getUnderwritingChecks } from '../utils/underwriting';
+import { formatMetricValue } from '../utils/metrics';
+import { SectionTitle } from './ui/SectionTitle';
+import { StatCard } from './ui/StatCard';
+
+interface UnderwritingPanelProps {
+  underwriting: UnderwritingMetrics;
+  assumptions: Assumptions;
+}
+
+/**
+ * Lender and investor underwriting checks, scored against the thresholds.
+ */
+export function UnderwritingPanel({ underwriting, assumptions }: UnderwritingPanelProps) {
+  const checks = getUnderwritingChecks(underwriting, assumptions);
+  const passed = checks.filter((check) => check.passed).length;
+
+  return (
+    <div className="space-y-4">
+      <SectionTitle icon={<ClipboardCheck />} title="Underwriting (Year 1)" />
+      <p className={`text-lg font-semibold ${passed === checks.length ? 'text-green-600 dark:text-green-400' : 'dark:text-gray-200'}`}>
+        Passes {passed} of {checks.length} checks
+      </p>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        {checks.map((check) => (
+          <StatCard
+            key={check.label}
+            label={check.label}
+            value={formatMetricValue(check.value, check.format)}
+            good={check.passed}
+            bad={!check.passed}
+            tooltip={check.description}
+          />
+        ))}
+      </div>
+      <p className="text-sm text-gray-500 dark:text-gray-400">
+        Debt service of {formatMetricValue(underwriting.debtService)} against net operating income of{' '}
+        {formatMetricValue(underwriting.netOperatingIncome)}. Hover a check for its threshold; change thresholds under Tweak Assumptions.
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,50 @@
+import React from 'react';
+import { CircleAlert, TriangleAlert } from 'lucide-react';
+import type { ValidationResult } from '../types';
+
+interface ValidationBannerProps {
+  validation: ValidationResult;
+  onFix: () => void;
+}
+
+/**
+ * Errors that block the analysis and warnings about out-of-market inputs.
+ */
+export function ValidationBanner({ validation, onFix }: ValidationBannerProps) {
+  const { errors, warnings } = validation;
+  if (errors.length === 0 && warnings.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {errors.length > 0 && (
+        <div className="rounded-xl border border-red-200 dark:border-red-800 bg-red-50 dark:bg-red-900/30 p-4 text-sm text-red-700 dark:text-red-300">
+          <div className="flex items-center font-semibold mb-1">
+            <CircleAlert className="w-5 h-5 mr-2" />
+            The analysis can't run until these are fixed
+          </div>
+          <ul className="list-disc pl-9 space-y-0.5">
+            {errors.map((issue) => (
+              <li key={`${issue.key}-${issue.message}`}>{issue.message}</li>
+            ))}
+          </ul>
+          <button onClick={onFix} className="mt-2 ml-7 font-medium underline hover:no-underline">
+            Tweak Assumptions
+          </button>
+        </div>
+      )}
+      {warnings.length > 0 && (
+        <div className="rounded-xl border border-amber-200 dark:border-amber-800 bg-amber-50 dark:bg-amber-900/30 p-4 text-sm text-amber-800 dark:text-amber-300">
+          <div className="flex items-center font-semibold mb-1">
+            <TriangleAlert className="w-5 h-5 mr-2" />
+            Outside the usual market range
+          </div>
+          <ul className="list-disc pl-9 space-y-0.5">
+            {warnings.map((issue) => (
+              <li key={`${issue.key}-${issue.message}`}>{issue.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
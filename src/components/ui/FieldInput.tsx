@@ -0,0 +1,57 @@
+import React from 'react';
+import { Calendar, DollarSign } from 'lucide-react';
+import type { FieldMeta, ValidationIssue } from '../../types';
+import { InputGroup } from './InputGroup';
+import { SliderInput } from './SliderInput';
+
+interface FieldInputProps {
+  id: string;
+  field: FieldMeta;
+  value: number;
+  onChange: (value: number) => void;
+  issue?: ValidationIssue;
+}
+
+/**
+ * The input for one numeric field, chosen by its unit: a slider for percents,
+ * otherwise a number box. A validation issue shows beneath it.
+ */
+export function FieldInput({ id, field, value, onChange, issue }: FieldInputProps) {
+  const message = issue && (
+    <p className={`text-xs mt-1 ${issue.severity === 'error' ? 'text-red-600 dark:text-red-400' : 'text-amber-600 dark:text-amber-400'}`}>
+      {issue.message}
+    </p>
+  );
+
+  if (field.unit === 'percent') {
+    return (
+      <div>
+        <SliderInput id={id} field={field} value={value} onChange={onChange} />
+        {message}
+      </div>
+    );
+  }
+
+  const icon = field.unit === 'currency'
+    ? <DollarSign className="icon-sm" />
+    : field.unit === 'years' ? <Calendar className="icon-sm" /> : undefined;
+  return (
+    <div>
+      <InputGroup label={field.label} id={id} icon={icon}>
+        <input
+          id={id}
+          type="number"
+          // Derived values (e.g. an average from the STR calendar) show to the cent
+          value={Math.round(value * 100) / 100}
+          onChange={(e) => onChange(Number(e.target.value))}
+          className="form-input"
+          step={field.step}
+          min={field.min}
+          max={field.max}
+          title={field.tooltip}
+        />
+      </InputGroup>
+      {message}
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import React from 'react';
+import { Bed, Briefcase, Building, Building2, Home, Hotel, LayoutGrid, RefreshCw, Store, Tent, User, Users, Warehouse } from 'lucide-react';
+import type { LucideIcon } from 'lucide-react';
+
+// Icons a scenario definition can name; unknown names fall back to a generic grid
+const SCENARIO_ICONS: Record<string, LucideIcon> = {
+  'bed': Bed,
+  'briefcase': Briefcase,
+  'building': Building,
+  'building-2': Building2,
+  'home': Home,
+  'hotel': Hotel,
+  'refresh-cw': RefreshCw,
+  'store': Store,
+  'tent': Tent,
+  'user': User,
+  'users': Users,
+  'warehouse': Warehouse,
+};
+
+interface ScenarioIconProps {
+  name: string;
+  className?: string;
+}
+
+/**
+ * The icon for a registered scenario, by name.
+ */
+export function ScenarioIcon({ name, className }: ScenarioIconProps) {
+  const Icon = SCENARIO_ICONS[name] ?? LayoutGrid;
+  return <Icon className={className} />;
+}
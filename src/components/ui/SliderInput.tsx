@@ -1,29 +1,23 @@
 import React from 'react';
+import type { FieldMeta } from '../../types';
+import { fromDisplayValue, toDisplayValue } from '../../utils/fieldSchema';
 
 interface SliderInputProps {
-  label: string;
   id: string;
+  field: FieldMeta;
   value: number;
-  onChange: (e: React.ChangeEvent<HTMLInputElement>) => void;
-  min: number;
-  max: number;
-  step: number;
-  isPercent?: boolean;
-  tooltip?: string;
+  onChange: (value: number) => void;
 }
 
 /**
- * A reusable styled slider input component.
+ * A reusable styled slider input component, labelled and bounded by its field.
  */
-export function SliderInput({ label, id, value, onChange, min, max, step, isPercent, tooltip }: SliderInputProps) {
-  const numberValue = isPercent ? (value * 100) : value;
+export function SliderInput({ id, field, value, onChange }: SliderInputProps) {
+  const { label, tooltip, min = 0, max = 100, step } = field;
+  const displayValue = toDisplayValue(field, value);
 
-  const handleTextChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    let val: number = parseFloat(e.target.value) || 0;
-    if (isPercent) {
-        val = val / 100;
-    }
-    onChange({ target: { value: val.toString() }} as React.ChangeEvent<HTMLInputElement>);
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    onChange(fromDisplayValue(field, parseFloat(e.target.value) || 0));
   };
 
   return (
@@ -34,10 +28,10 @@ export function SliderInput({ label, id, value, onChange, min, max, step, isPerc
         </label>
         <input
           type="number"
-          value={numberValue.toFixed(step.toString().split('.')[1]?.length || 0)}
-          onChange={handleTextChange}
-          min={isPercent ? min : undefined}
-          max={isPercent ? max : undefined}
+          value={displayValue.toFixed(step.toString().split('.')[1]?.length || 0)}
+          onChange={handleChange}
+          min={min}
+          max={max}
           step={step}
           className="form-input w-28 text-right"
         />
@@ -45,8 +39,8 @@ export function SliderInput({ label, id, value, onChange, min, max, step, isPerc
       <input
         id={id}
         type="range"
-        value={isPercent ? value * 100 : value}
-        onChange={isPercent ? e => onChange({ target: { value: (parseFloat(e.target.value) / 100).toString() }} as React.ChangeEvent<HTMLInputElement>) : onChange}
+        value={displayValue}
+        onChange={handleChange}
         min={min}
         max={max}
         step={step}
@@ -0,0 +1,89 @@
+import type { ScenarioDefinition, StrCalendarMonth } from '../types';
+import { calculateStrIncome, withStrAverages, withStrCalendar } from '../utils/shortTermRental';
+import {
+  RENTAL_INPUTS,
+  buildRentalExpenseDrillDown,
+  calculateRentalProforma,
+  costSegregationDrillDown,
+  effectiveGrossIncomeLine,
+  rentalMetrics,
+  rentalProjection,
+  rentalStatement,
+  rentalTaxDrillDown,
+} from './rentalStatement';
+
+/**
+ * Short-term rental: seasonal nightly bookings through a listing platform.
+ */
+export const airbnbScenario: ScenarioDefinition<'airbnb'> = {
+  id: 'airbnb',
+  label: 'Short-Term (Airbnb)',
+  icon: 'home',
+  fields: [
+    {
+      key: 'avgNightlyRate',
+      update: (assumptions, value) => withStrAverages(assumptions, { avgNightlyRate: Number(value) }),
+    },
+    {
+      key: 'occupancyRate',
+      update: (assumptions, value) => withStrAverages(assumptions, { occupancyRate: Number(value) }),
+    },
+    {
+      key: 'strCalendar',
+      label: 'Seasonal Calendar',
+      kind: 'str-calendar',
+      update: (assumptions, value) => withStrCalendar(assumptions, value as StrCalendarMonth[]),
+    },
+    { key: 'avgStayNights' },
+    { key: 'cleaningFee' },
+    { key: 'airbnbFeePercent' },
+    { key: 'cleaningCostPerTurnover' },
+    { key: 'consumablesPerStay' },
+    { key: 'lodgingTaxRate' },
+  ],
+  // Market rent sets the price-to-rent underwriting check
+  sharedInputs: [...RENTAL_INPUTS, 'monthlyRent'],
+  passiveActivity: 'short-term',
+  calculate: (context) => {
+    const { assumptions, incomeGrowth, expenseGrowth } = context;
+    // Seasonal nightly bookings plus guest cleaning fees
+    const shortTermRental = calculateStrIncome(assumptions, incomeGrowth, expenseGrowth);
+    return calculateRentalProforma(context, {
+      grossPotentialIncome: shortTermRental.grossRevenue,
+      vacancyLoss: 0, // Vacancy is built into occupancy for Airbnb
+      platformFee: shortTermRental.grossRevenue * assumptions.airbnbFeePercent,
+      shortTermRental,
+      midTermRental: null,
+    });
+  },
+  annualCashFlow: (p) => p.cashFlowAfterTax,
+  display: {
+    metrics: rentalMetrics,
+    statementTitle: 'Simplified Proforma (Year 1)',
+    statement: rentalStatement,
+    drillDowns: [
+      {
+        title: 'Income Breakdown',
+        widget: (p) => (p.shortTermRental ? { type: 'str-monthly-revenue', income: p.shortTermRental } : null),
+        lines: [
+          { label: 'Nightly Revenue', value: (p) => p.shortTermRental?.rentRevenue ?? 0 },
+          { label: 'Cleaning Fees Collected', value: (p) => p.shortTermRental?.cleaningFeeRevenue ?? 0 },
+          effectiveGrossIncomeLine,
+        ],
+      },
+      buildRentalExpenseDrillDown([
+        { label: 'Platform Fees', value: (p) => p.platformFee, tone: 'expense' },
+        {
+          label: (p) => `Cleaning (${(p.shortTermRental?.stays ?? 0).toFixed(0)} Turnovers)`,
+          value: (p) => p.shortTermRental?.cleaningCost ?? 0,
+          tone: 'expense',
+        },
+        { label: 'Consumables', value: (p) => p.shortTermRental?.consumablesCost ?? 0, tone: 'expense' },
+        { label: 'Lodging Tax', value: (p) => p.shortTermRental?.lodgingTax ?? 0, tone: 'expense' },
+      ]),
+      rentalTaxDrillDown,
+      costSegregationDrillDown,
+    ],
+    projection: rentalProjection,
+  },
+};
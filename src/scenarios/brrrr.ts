@@ -0,0 +1,160 @@
+import type { RefinanceProforma, ScenarioDefinition } from '../types';
+import { calculateRefinance } from '../utils/refinance';
+import { calculateUnderwriting } from '../utils/underwriting';
+import {
+  RENTAL_INPUTS,
+  buildRentalExpenseDrillDown,
+  calculateRentalProforma,
+  costSegregationDrillDown,
+  getLongTermRentIncome,
+  longTermIncomeDrillDown,
+  rentalProjection,
+  rentalStatement,
+  rentalTaxDrillDown,
+} from './rentalStatement';
+
+/**
+ * Months of a year the property is rented: it sits empty for the rehab and
+ * is rented from the refinance month on.
+ */
+const getRentedMonths = (year: number, refinanceMonth: number): number => {
+  return Math.min(12, Math.max(0, year * 12 - refinanceMonth + 1));
+};
+
+/**
+ * BRRRR: buy, rehab, rent, then a cash-out refinance on the after-repair value.
+ */
+export const brrrrScenario: ScenarioDefinition<'brrrr'> = {
+  id: 'brrrr',
+  label: 'BRRRR (Refinance)',
+  icon: 'refresh-cw',
+  fields: [
+    { key: 'rehabCost' },
+    { key: 'appraisedValue' },
+    { key: 'refinanceMonth' },
+    { key: 'refinanceLtvPercent' },
+    { key: 'refinanceInterestRate' },
+    { key: 'refinanceLoanTerm' },
+    { key: 'refinanceClosingCostsPercent' },
+  ],
+  sharedInputs: [...RENTAL_INPUTS, 'monthlyRent', 'vacancyPercent'],
+  passiveActivity: 'rental',
+  refinances: true,
+  // Rehab is a capital improvement: paid in cash, added to basis
+  capitalImprovements: (assumptions) => assumptions.rehabCost,
+  // The property appreciates from the after-repair appraised value
+  startingValue: (assumptions) => assumptions.appraisedValue,
+  calculate: (context) => {
+    const { assumptions, year, base, capitalImprovements } = context;
+    const refinance = context.refinance ?? calculateRefinance(assumptions, year);
+    const rentedShare = getRentedMonths(year, refinance.refinanceMonth) / 12;
+    const income = getLongTermRentIncome(context);
+    const rentalProforma = calculateRentalProforma(context, {
+      ...income,
+      grossPotentialIncome: income.grossPotentialIncome * rentedShare,
+      vacancyLoss: income.vacancyLoss * rentedShare,
+    });
+    // Stabilized: a full year of rent with the new loan as the only debt, so its
+    // payment and tax effect come from a full year of the new loan's interest.
+    // Years after the refinance year already are
+    const { stabilizedLoanYear } = refinance;
+    const stabilized = year > refinance.refinanceYear
+      ? rentalProforma
+      : calculateRentalProforma(
+        {
+          ...context,
+          loanYear: stabilizedLoanYear,
+          base: { ...base, annualPrincipal: stabilizedLoanYear.principal, annualMortgageInsurance: stabilizedLoanYear.mortgageInsurance },
+        },
+        income
+      );
+
+    // --- Refinance Metrics ---
+    const postRefinanceCashFlow = stabilized.cashFlowAfterTax;
+    const cashLeftInDeal = base.totalCashNeeded - refinance.cashOut;
+
+    const refinanceProforma: RefinanceProforma = {
+      ...rentalProforma,
+      scenario: 'brrrr',
+      rehabCost: capitalImprovements,
+      refinanceYear: refinance.refinanceYear,
+      payoffBalance: refinance.payoffBalance,
+      refinanceLoanAmount: refinance.refinanceLoanAmount,
+      refinanceClosingCosts: refinance.refinanceClosingCosts,
+      cashOut: refinance.cashOut,
+      cashOutThisYear: year === refinance.refinanceYear ? refinance.cashOut : 0,
+      cashLeftInDeal,
+      refinanceAnnualMortgagePayment: refinance.refinanceAnnualMortgagePayment,
+      postRefinanceCashFlow,
+      // All capital recovered means an infinite return on what is left in
+      cashOnCashReturn: cashLeftInDeal > 0 ? postRefinanceCashFlow / cashLeftInDeal : Infinity,
+      // Lenders underwrite the refinance loan on the stabilized rent
+      underwriting: calculateUnderwriting(assumptions, {
+        grossPotentialIncome: stabilized.grossPotentialIncome,
+        effectiveGrossIncome: stabilized.effectiveGrossIncome,
+        totalOpEx: stabilized.totalOpEx,
+        debtService: refinance.refinanceAnnualMortgagePayment,
+      }),
+    };
+    return refinanceProforma;
+  },
+  annualCashFlow: (p) => p.cashFlowAfterTax,
+  // The cash-out arrives in the refinance year
+  projectionCashFlow: (p) => p.cashFlowAfterTax + p.cashOutThisYear,
+  display: {
+    metrics: [
+      {
+        label: 'Cash Pulled Out',
+        value: (p) => p.cashOut,
+        good: (p) => p.cashOut > 0,
+        bad: (p) => p.cashOut < 0,
+      },
+      {
+        label: 'Cash Left in Deal',
+        value: (p) => p.cashLeftInDeal,
+        good: (p) => p.cashLeftInDeal <= 0,
+        tooltip: 'Total cash invested (including rehab) minus cash pulled out at refinance.',
+      },
+      {
+        label: 'Cash on Cash (Left In)',
+        value: (p) => p.cashOnCashReturn,
+        format: 'percent',
+        good: (p) => p.cashOnCashReturn > 0,
+        bad: (p) => p.cashOnCashReturn < 0,
+        tooltip: 'Post-refinance cash flow divided by the cash still left in the deal.',
+      },
+      {
+        label: 'Post-Refi Cash Flow',
+        value: (p) => p.postRefinanceCashFlow / 12,
+        good: (p) => p.postRefinanceCashFlow > 0,
+        bad: (p) => p.postRefinanceCashFlow < 0,
+        tooltip: 'Monthly after-tax cash flow once the new loan is in place.',
+      },
+    ],
+    statementTitle: 'Simplified Proforma (Year 1)',
+    statement: rentalStatement,
+    drillDowns: [
+      {
+        title: 'Refinance Breakdown',
+        lines: [
+          { label: 'Down Payment & Closing Costs', value: (p) => p.totalCashNeeded - p.rehabCost - p.startupCapital },
+          { label: 'Rehab Budget', value: (p) => p.rehabCost },
+          { label: 'Startup Capital', value: (p) => p.startupCapital, show: (p) => p.startupCapital > 0 },
+          { label: 'Total Cash Invested', value: (p) => p.totalCashNeeded, bold: true },
+          { label: 'New Loan Amount', value: (p) => p.refinanceLoanAmount },
+          { label: 'Purchase Loan Payoff', value: (p) => p.payoffBalance, tone: 'expense' },
+          { label: 'Refinance Closing Costs', value: (p) => p.refinanceClosingCosts, tone: 'expense' },
+          { label: (p) => `Cash Pulled Out (Year ${p.refinanceYear})`, value: (p) => p.cashOut, bold: true },
+          { label: 'Cash Left in Deal', value: (p) => p.cashLeftInDeal, bold: true },
+          { label: 'New Annual Mortgage Payment', value: (p) => p.refinanceAnnualMortgagePayment, tone: 'expense' },
+          { label: 'Post-Refinance Cash Flow (After Tax)', value: (p) => p.postRefinanceCashFlow, bold: true },
+        ],
+      },
+      longTermIncomeDrillDown,
+      buildRentalExpenseDrillDown(),
+      rentalTaxDrillDown,
+      costSegregationDrillDown,
+    ],
+    projection: rentalProjection,
+  },
+};
@@ -0,0 +1,310 @@
+import type { ScenarioDefinition } from '../types';
+import { calculateHomeDeductions, calculateMarginalTaxEffect } from '../utils/tax';
+import { applyPassiveActivityRules } from '../utils/passiveLoss';
+import { formatPercent } from '../utils/calculations';
+import { scaleBuildingDepreciation } from '../utils/depreciation';
+import { PASSIVE_LOSS_LABELS, RENTAL_INPUTS, capexReserveLine, costSegregationDepreciationLine, costSegregationDrillDown, getPassiveActivity, pointsAmortizationLine, totalCashNeededMetric } from './rentalStatement';
+
+/**
+ * House hack: live in part of the property and rent the rest. Shared costs
+ * are split between personal and rental use by the share occupied.
+ */
+export const houseHackScenario: ScenarioDefinition<'house-hack'> = {
+  id: 'house-hack',
+  label: 'House Hack',
+  icon: 'users',
+  fields: [
+    { key: 'ownerOccupiedPercent' },
+    {
+      key: 'houseHackRentType',
+      label: 'Rented As',
+      kind: 'select',
+      options: [
+        { value: 'unit', label: 'Long-Term Units' },
+        { value: 'per-room', label: 'Individual Rooms' },
+      ],
+    },
+    { key: 'houseHackUnitRent', visible: (assumptions) => assumptions.houseHackRentType === 'unit' },
+    { key: 'rentPerRoom', visible: (assumptions) => assumptions.houseHackRentType === 'per-room' },
+    { key: 'roomsRented', visible: (assumptions) => assumptions.houseHackRentType === 'per-room' },
+  ],
+  sharedInputs: [...RENTAL_INPUTS, 'vacancyPercent', 'equivalentRent'],
+  passiveActivity: 'rental',
+  primaryResidenceShare: (assumptions) => assumptions.ownerOccupiedPercent,
+  calculate: (context) => {
+    const { assumptions, personal, year, priorSuspendedLosses, base, loanYear, incomeGrowth, startupCapital } = context;
+    const {
+      ownerOccupiedPercent,
+      houseHackRentType,
+      houseHackUnitRent,
+      rentPerRoom,
+      roomsRented,
+      purchasePrice,
+      loanTerm,
+      vacancyPercent,
+      maintenancePercent,
+      mgmtFeePercent,
+      equivalentRent,
+    } = assumptions;
+    const { annualPropertyTax, annualHomeInsurance, annualHOA, annualUtilities, capexReserve, annualMortgageInsurance, annualPrincipal, pointsCost, totalCashNeeded, opportunityCost } = base;
+    const annualMortgagePayment = loanYear.payment;
+    const annualInterest = loanYear.interest;
+
+    const personalShare = Math.max(0, Math.min(1, ownerOccupiedPercent));
+    const rentalShare = 1 - personalShare;
+
+    // --- Rented Portion: Income ---
+    const monthlyRentCollected = houseHackRentType === 'per-room' ? rentPerRoom * roomsRented : houseHackUnitRent;
+    const grossPotentialIncome = monthlyRentCollected * 12 * incomeGrowth;
+    const vacancyLoss = grossPotentialIncome * vacancyPercent;
+    const effectiveGrossIncome = grossPotentialIncome - vacancyLoss;
+
+    // --- Rented Portion: Expenses ---
+    // Maintenance & management are driven by the rent, so belong to the rental
+    const maintenance = effectiveGrossIncome * maintenancePercent;
+    const managementFee = effectiveGrossIncome * mgmtFeePercent;
+    const sharedOpEx = annualPropertyTax + annualHomeInsurance + annualHOA + annualUtilities;
+    const rentalOperatingExpenses = sharedOpEx * rentalShare + maintenance + managementFee;
+    const rentalNetOperatingIncome = effectiveGrossIncome - rentalOperatingExpenses;
+    const rentalDebtService = (annualMortgagePayment + annualMortgageInsurance) * rentalShare;
+    const rentalCapexReserve = capexReserve * rentalShare;
+    const rentalCashFlowBeforeTax = rentalNetOperatingIncome - rentalCapexReserve - rentalDebtService;
+
+    // --- Rented Portion: Tax ---
+    const pointsAmortization = (year <= loanTerm && loanTerm > 0 ? pointsCost / loanTerm : 0) * rentalShare;
+    const depreciation = scaleBuildingDepreciation(context.depreciation, rentalShare);
+    const baselineDepreciation = scaleBuildingDepreciation(context.baselineDepreciation, rentalShare).total;
+    const rentalDepreciation = depreciation.total;
+    const netTaxableIncome = effectiveGrossIncome
+      - rentalOperatingExpenses
+      - (annualInterest + annualMortgageInsurance) * rentalShare
+      - pointsAmortization
+      - rentalDepreciation;
+    const passiveLoss = applyPassiveActivityRules(netTaxableIncome, personal, getPassiveActivity(context), priorSuspendedLosses);
+
+    // --- Personal Portion: Itemized Deductions ---
+    const deductions = calculateHomeDeductions(personal, {
+      propertyTax: annualPropertyTax * personalShare,
+      mortgageInterest: annualInterest * personalShare,
+      averageMortgageBalance: (loanYear.endingBalance + annualPrincipal / 2) * personalShare,
+      points: year === 1 ? pointsCost * personalShare : 0,
+    });
+
+    // Combined tax effect, split into the homeowner's savings and the rental's share
+    const taxEffect = calculateMarginalTaxEffect(personal, passiveLoss.taxableIncome - deductions.incrementalDeduction);
+    const federalTaxBenefit = -taxEffect.federalTaxChange;
+    const stateTaxBenefit = -taxEffect.stateTaxChange;
+    const taxBenefit = federalTaxBenefit + stateTaxBenefit;
+    const ownerTaxSavings = -calculateMarginalTaxEffect(personal, -deductions.incrementalDeduction).totalTaxChange;
+    const rentalTaxBenefit = taxBenefit - ownerTaxSavings;
+
+    // Extra tax benefit from cost segregation over depreciating without it
+    const baselinePassiveLoss = applyPassiveActivityRules(netTaxableIncome + rentalDepreciation - baselineDepreciation, personal, getPassiveActivity(context), priorSuspendedLosses);
+    const costSegregationTaxImpact = taxBenefit +
+      calculateMarginalTaxEffect(personal, baselinePassiveLoss.taxableIncome - deductions.incrementalDeduction).totalTaxChange;
+
+    // --- Rented Portion: Returns ---
+    const rentalCashFlowAfterTax = rentalCashFlowBeforeTax + rentalTaxBenefit;
+    const rentalCashInvested = (totalCashNeeded - startupCapital.total) * rentalShare + startupCapital.total;
+    const rentalCapRate = rentalShare > 0 ? rentalNetOperatingIncome / (purchasePrice * rentalShare) : 0;
+    const rentalCashOnCashReturn = rentalCashInvested > 0 ? rentalCashFlowAfterTax / rentalCashInvested : 0;
+
+    // --- Owner's Net Housing Cost ---
+    const totalAnnualCost = annualMortgagePayment + annualMortgageInsurance + sharedOpEx + capexReserve + maintenance + managementFee;
+    const totalExpenses = totalAnnualCost + opportunityCost;
+    const netAnnualCost = totalAnnualCost - effectiveGrossIncome - taxBenefit;
+    const grossAvoidedRent = equivalentRent * 12 * incomeGrowth;
+    const netBenefit = grossAvoidedRent - netAnnualCost;
+
+    return {
+      ...base,
+      ...deductions,
+      scenario: 'house-hack',
+      ownerOccupiedPercent: personalShare,
+      rentalShare,
+      grossPotentialIncome,
+      vacancyLoss,
+      effectiveGrossIncome,
+      maintenance,
+      managementFee,
+      rentalOperatingExpenses,
+      rentalNetOperatingIncome,
+      rentalDebtService,
+      rentalCapexReserve,
+      rentalCashFlowBeforeTax,
+      annualInterest,
+      pointsAmortization,
+      buildingDepreciation: depreciation.building,
+      costSegregationDepreciation: depreciation.fiveYear + depreciation.sevenYear + depreciation.fifteenYear,
+      furnishingsDepreciation: depreciation.furnishings,
+      annualDepreciation: rentalDepreciation,
+      depreciation,
+      baselineDepreciation,
+      costSegregationTaxImpact,
+      netTaxableIncome,
+      passiveLossTreatment: passiveLoss.treatment,
+      priorSuspendedLosses,
+      passiveLossAllowed: passiveLoss.allowedLoss,
+      suspendedLossCarryforward: passiveLoss.suspendedLossCarryforward,
+      taxableIncomeAfterPassiveRules: passiveLoss.taxableIncome,
+      rentalTaxBenefit,
+      rentalCashFlowAfterTax,
+      rentalCashInvested,
+      rentalCapRate,
+      rentalCashOnCashReturn,
+      annualMortgagePayment,
+      totalAnnualCost,
+      totalExpenses,
+      ownerTaxSavings,
+      federalTaxBenefit,
+      stateTaxBenefit,
+      taxBenefit,
+      grossAvoidedRent,
+      netAnnualCost,
+      netMonthlyCost: netAnnualCost / 12,
+      netBenefit,
+    };
+  },
+  annualCashFlow: (p) => p.netBenefit,
+  display: {
+    metrics: [
+      {
+        label: 'Net Monthly Housing Cost',
+        value: (p) => p.netMonthlyCost,
+        good: (p) => p.netMonthlyCost <= 0,
+        bad: (p) => p.netMonthlyCost > 0,
+        tooltip: 'Everything you pay to own the property, less rent collected and tax savings.',
+      },
+      {
+        label: 'vs. Renting',
+        value: (p) => p.netBenefit / 12,
+        good: (p) => p.netBenefit > 0,
+        bad: (p) => p.netBenefit < 0,
+        tooltip: 'Monthly benefit (or cost) vs. paying equivalent rent.',
+      },
+      {
+        label: 'Rental Cash on Cash',
+        value: (p) => p.rentalCashOnCashReturn,
+        format: 'percent',
+        good: (p) => p.rentalCashOnCashReturn > 0,
+        bad: (p) => p.rentalCashOnCashReturn < 0,
+        tooltip: "Rented portion's after-tax cash flow divided by its share of the cash invested.",
+      },
+      totalCashNeededMetric,
+    ],
+    statementTitle: (p) => `House Hack Analysis (Year 1, ${formatPercent(p.ownerOccupiedPercent)} Owner-Occupied)`,
+    statement: [
+      { label: 'Total Annual Housing Cost', value: (p) => p.totalAnnualCost, tone: 'expense' },
+      { label: 'Rent Collected', value: (p) => p.effectiveGrossIncome },
+      { label: 'Tax Benefit (Savings / Owed)', value: (p) => p.taxBenefit, tone: 'signed' },
+      { label: 'Net Housing Cost', value: (p) => p.netAnnualCost, bold: true },
+      { label: 'Annual Avoided Rent', value: (p) => p.grossAvoidedRent },
+      { label: 'Net Benefit vs. Renting', value: (p) => p.netBenefit, bold: true, final: true },
+    ],
+    drillDowns: [
+      {
+        title: 'Rental Portion',
+        lines: [
+          { label: 'Gross Potential Rent', value: (p) => p.grossPotentialIncome },
+          { label: 'Vacancy Loss', value: (p) => p.vacancyLoss, tone: 'expense' },
+          { label: 'Effective Gross Income', value: (p) => p.effectiveGrossIncome, bold: true },
+          {
+            label: (p) => `Shared Expenses (${formatPercent(p.rentalShare)} Rental) + Maintenance & Management`,
+            value: (p) => p.rentalOperatingExpenses,
+            tone: 'expense',
+          },
+          { label: 'Net Operating Income (NOI)', value: (p) => p.rentalNetOperatingIncome, bold: true },
+          {
+            label: 'CapEx Reserve (Rental Share)',
+            value: (p) => p.rentalCapexReserve,
+            tone: 'expense',
+            show: (p) => p.rentalCapexReserve > 0,
+          },
+          { label: 'Debt Service (Rental Share)', value: (p) => p.rentalDebtService, tone: 'expense' },
+          { label: 'Cash Flow (Before Tax)', value: (p) => p.rentalCashFlowBeforeTax, bold: true },
+          { label: 'Tax Benefit (Rental)', value: (p) => p.rentalTaxBenefit, tone: 'signed' },
+          { label: 'Cash Flow (After Tax)', value: (p) => p.rentalCashFlowAfterTax, bold: true },
+          { label: 'Cash Invested (Rental Share)', value: (p) => p.rentalCashInvested },
+          { label: 'Cap Rate (Rental Share)', value: (p) => p.rentalCapRate, format: 'percent' },
+          { label: 'Cash on Cash Return', value: (p) => p.rentalCashOnCashReturn, format: 'percent', bold: true },
+        ],
+      },
+      {
+        title: 'Housing Cost Breakdown',
+        lines: [
+          { label: 'Mortgage Interest', value: (p) => p.annualInterest, tone: 'expense' },
+          { label: 'Mortgage Principal (Equity)', value: (p) => p.annualPrincipal, tone: 'expense' },
+          {
+            label: 'Mortgage Insurance (PMI/MIP)',
+            value: (p) => p.annualMortgageInsurance,
+            tone: 'expense',
+            show: (p) => p.annualMortgageInsurance > 0,
+          },
+          { label: 'Property Tax', value: (p) => p.annualPropertyTax, tone: 'expense' },
+          { label: 'Home Insurance', value: (p) => p.annualHomeInsurance, tone: 'expense' },
+          { label: 'HOA', value: (p) => p.annualHOA, tone: 'expense' },
+          { label: 'Utilities', value: (p) => p.annualUtilities, tone: 'expense' },
+          { label: 'Maintenance', value: (p) => p.maintenance, tone: 'expense' },
+          { label: 'Management Fee', value: (p) => p.managementFee, tone: 'expense' },
+          capexReserveLine,
+          { label: 'Opportunity Cost', value: (p) => p.opportunityCost, tone: 'expense' },
+          { label: 'Total Annual Cost', value: (p) => p.totalExpenses, bold: true },
+        ],
+      },
+      {
+        title: 'Tax Calculation Breakdown',
+        lines: [
+          { label: 'Rental Net Operating Income', value: (p) => p.rentalNetOperatingIncome },
+          {
+            label: 'Interest & Insurance (Rental Share)',
+            value: (p) => p.rentalNetOperatingIncome - p.annualDepreciation - p.pointsAmortization - p.netTaxableIncome,
+            tone: 'expense',
+          },
+          { ...pointsAmortizationLine, label: 'Discount Points (Amortized, Rental Share)' },
+          { label: 'Depreciation (27.5-yr Building, Rental Share)', value: (p) => p.buildingDepreciation, tone: 'expense' },
+          costSegregationDepreciationLine,
+          {
+            label: 'Depreciation (Furnishings)',
+            value: (p) => p.furnishingsDepreciation,
+            tone: 'expense',
+            show: (p) => p.furnishingsDepreciation > 0,
+          },
+          { label: 'Rental Taxable Income / (Loss)', value: (p) => p.netTaxableIncome, bold: true },
+          {
+            label: (p) => `Loss Allowed (${PASSIVE_LOSS_LABELS[p.passiveLossTreatment]})`,
+            value: (p) => p.passiveLossAllowed,
+          },
+          {
+            label: 'Suspended Loss Carried Forward',
+            value: (p) => p.suspendedLossCarryforward,
+            show: (p) => p.suspendedLossCarryforward > 0,
+          },
+          { label: 'Rental Income After Passive Loss Rules', value: (p) => p.taxableIncomeAfterPassiveRules, bold: true },
+          {
+            label: (p) => `Personal Share of Property Tax & Interest (${formatPercent(p.ownerOccupiedPercent)})`,
+            value: (p) => p.deductiblePropTax + p.deductibleInterest,
+          },
+          { label: 'Itemized Deductions', value: (p) => p.itemizedDeductions },
+          { label: 'Deduction Without the Home', value: (p) => p.baselineDeduction, tone: 'expense' },
+          { label: 'Incremental Deduction', value: (p) => p.incrementalDeduction, bold: true },
+          { label: 'Homeowner Tax Savings', value: (p) => p.ownerTaxSavings },
+          { label: 'Rental Tax Benefit', value: (p) => p.rentalTaxBenefit, tone: 'signed' },
+          { label: 'Federal Tax Effect (Brackets)', value: (p) => p.federalTaxBenefit, tone: 'signed' },
+          {
+            label: (_, personal) => `State Tax Effect (${formatPercent(personal.stateTaxRate)})`,
+            value: (p) => p.stateTaxBenefit,
+            tone: 'signed',
+          },
+          { label: 'Total Tax Benefit', value: (p) => p.taxBenefit, bold: true },
+        ],
+      },
+      costSegregationDrillDown,
+    ],
+    projection: {
+      incomeLabel: 'Income',
+      cashFlowLabel: 'Net Benefit',
+      cumulativeLabel: 'Cumulative Benefit',
+      income: (p) => p.effectiveGrossIncome,
+    },
+  },
+};
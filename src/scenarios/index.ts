@@ -0,0 +1,17 @@
+import { registerScenario } from './registry';
+import { rentalScenario } from './rental';
+import { airbnbScenario } from './airbnb';
+import { midTermScenario } from './midTerm';
+import { brrrrScenario } from './brrrr';
+import { ownerScenario } from './owner';
+import { houseHackScenario } from './houseHack';
+
+// Built-in scenarios, in tab order. In-house scenarios register the same way.
+registerScenario(rentalScenario);
+registerScenario(airbnbScenario);
+registerScenario(midTermScenario);
+registerScenario(brrrrScenario);
+registerScenario(ownerScenario);
+registerScenario(houseHackScenario);
+
+export { getScenario, getScenarios, registerScenario } from './registry';
@@ -0,0 +1,77 @@
+import type { ScenarioDefinition } from '../types';
+import { calculateMidTermIncome } from '../utils/midTermRental';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import {
+  RENTAL_INPUTS,
+  buildRentalExpenseDrillDown,
+  calculateRentalProforma,
+  costSegregationDrillDown,
+  effectiveGrossIncomeLine,
+  rentalMetrics,
+  rentalProjection,
+  rentalStatement,
+  rentalTaxDrillDown,
+} from './rentalStatement';
+
+/**
+ * Mid-term rental: furnished monthly rent with gaps between 30+ day tenants.
+ */
+export const midTermScenario: ScenarioDefinition<'mid-term'> = {
+  id: 'mid-term',
+  label: 'Mid-Term (Furnished)',
+  icon: 'bed',
+  fields: [
+    { key: 'midTermMonthlyRent' },
+    { key: 'midTermOccupancyRate' },
+    { key: 'midTermStayMonths' },
+    { key: 'midTermTurnoverCost' },
+  ],
+  // Market rent sets the price-to-rent underwriting check
+  sharedInputs: [...RENTAL_INPUTS, 'monthlyRent'],
+  passiveActivity: 'rental',
+  calculate: (context) => {
+    const midTermRental = calculateMidTermIncome(context.assumptions, context.incomeGrowth, context.expenseGrowth);
+    return calculateRentalProforma(context, {
+      grossPotentialIncome: midTermRental.grossPotentialRent,
+      vacancyLoss: midTermRental.vacancyLoss,
+      platformFee: 0,
+      shortTermRental: null,
+      midTermRental,
+    });
+  },
+  annualCashFlow: (p) => p.cashFlowAfterTax,
+  display: {
+    metrics: rentalMetrics,
+    statementTitle: 'Simplified Proforma (Year 1)',
+    statement: rentalStatement,
+    drillDowns: [
+      {
+        title: 'Income Breakdown',
+        lines: [
+          {
+            label: (p) => `Furnished Rent (${formatCurrency(p.midTermRental?.monthlyRent ?? 0)} × 12)`,
+            value: (p) => p.grossPotentialIncome,
+          },
+          {
+            label: (p) => `Vacancy Between Stays (${formatPercent(1 - (p.midTermRental?.occupancyRate ?? 0))})`,
+            value: (p) => p.vacancyLoss,
+            tone: 'expense',
+          },
+          { label: 'Months Occupied', value: (p) => p.midTermRental?.monthsOccupied ?? 0, format: 'count' },
+          { label: 'Tenant Turnovers', value: (p) => p.midTermRental?.turnovers ?? 0, format: 'count' },
+          effectiveGrossIncomeLine,
+        ],
+      },
+      buildRentalExpenseDrillDown([
+        {
+          label: 'Turnover (Cleaning, Restock, Re-listing)',
+          value: (p) => p.midTermRental?.turnoverCost ?? 0,
+          tone: 'expense',
+        },
+      ]),
+      rentalTaxDrillDown,
+      costSegregationDrillDown,
+    ],
+    projection: rentalProjection,
+  },
+};
@@ -0,0 +1,151 @@
+import type { ScenarioDefinition } from '../types';
+import { calculateHomeDeductions, calculateMarginalTaxEffect } from '../utils/tax';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { capexReserveLine, totalCashNeededMetric } from './rentalStatement';
+
+/**
+ * Owner-occupied: live in the home; "income" is the rent you no longer pay.
+ */
+export const ownerScenario: ScenarioDefinition<'owner'> = {
+  id: 'owner',
+  label: 'Owner-Occupied',
+  icon: 'user',
+  fields: [{ key: 'equivalentRent' }],
+  rentVsBuy: true,
+  primaryResidenceShare: () => 1,
+  calculate: ({ assumptions, personal, year, base, loanYear, incomeGrowth }) => {
+    const { annualPropertyTax, annualHomeInsurance, annualHOA, annualUtilities, capexReserve, annualMortgageInsurance, annualPrincipal, pointsCost, opportunityCost } = base;
+    const annualMortgagePayment = loanYear.payment;
+    const annualInterest = loanYear.interest;
+
+    // "Income" is the rent saved
+    const grossAvoidedRent = assumptions.equivalentRent * 12 * incomeGrowth;
+
+    // Total Housing Cost (PITI + Mortgage Insurance + HOA + Utils + CapEx Reserve)
+    const annualPITI = annualMortgagePayment + annualMortgageInsurance + annualPropertyTax + annualHomeInsurance;
+    const totalAnnualCost = annualPITI + annualHOA + annualUtilities + capexReserve;
+
+    // Total "Expense" including opportunity cost
+    const totalExpenses = totalAnnualCost + opportunityCost;
+
+    // Tax Savings (only itemized deductions above the standard deduction count)
+    const deductions = calculateHomeDeductions(personal, {
+      propertyTax: annualPropertyTax,
+      mortgageInterest: annualInterest,
+      averageMortgageBalance: loanYear.endingBalance + annualPrincipal / 2,
+      // Points paid to buy a main home are deductible in the year paid
+      points: year === 1 ? pointsCost : 0,
+    });
+    const taxEffect = calculateMarginalTaxEffect(personal, -deductions.incrementalDeduction);
+    const federalTaxBenefit = -taxEffect.federalTaxChange;
+    const stateTaxBenefit = -taxEffect.stateTaxChange;
+    const taxSavings = federalTaxBenefit + stateTaxBenefit;
+
+    const netAnnualCost = totalAnnualCost - taxSavings;
+    const netBenefit = grossAvoidedRent - netAnnualCost;
+
+    return {
+      ...base,
+      scenario: 'owner',
+      grossAvoidedRent,
+      totalAnnualCost,
+      totalExpenses,
+      annualPITI,
+      annualInterest,
+      ...deductions,
+      federalTaxBenefit,
+      stateTaxBenefit,
+      taxBenefit: taxSavings,
+      netAnnualCost,
+      netBenefit,
+      // Monthly costs
+      monthlyTotalCost: totalAnnualCost / 12,
+      netMonthlyCost: netAnnualCost / 12,
+    };
+  },
+  annualCashFlow: (p) => p.netBenefit,
+  display: {
+    metrics: [
+      { label: 'Net Monthly Cost', value: (p) => p.netMonthlyCost, bad: () => true },
+      {
+        label: 'vs. Renting',
+        value: (p) => p.netBenefit / 12,
+        good: (p) => p.netBenefit > 0,
+        bad: (p) => p.netBenefit < 0,
+        tooltip: 'Monthly benefit (or cost) vs. paying equivalent rent.',
+      },
+      { label: 'Monthly Cost (No Tax)', value: (p) => p.monthlyTotalCost, bad: () => true },
+      totalCashNeededMetric,
+    ],
+    statementTitle: 'Owner-Occupied Analysis (Year 1)',
+    statement: [
+      { label: 'Annual Avoided Rent (Income)', value: (p) => p.grossAvoidedRent },
+      { label: 'Total Annual Housing Cost (Expense)', value: (p) => p.totalExpenses, tone: 'expense' },
+      { label: 'Net Position (Before Tax)', value: (p) => p.grossAvoidedRent - p.totalAnnualCost, bold: true },
+      { label: 'Tax Benefit (Savings)', value: (p) => p.taxBenefit },
+      { label: 'Net Benefit vs. Renting', value: (p) => p.netBenefit, bold: true, final: true },
+    ],
+    drillDowns: [
+      {
+        title: 'Housing Cost Breakdown',
+        lines: [
+          { label: 'Mortgage Interest (Expense)', value: (p) => p.annualInterest, tone: 'expense' },
+          { label: 'Mortgage Principal (Equity)', value: (p) => p.annualPrincipal, tone: 'expense' },
+          {
+            label: 'Mortgage Insurance (PMI/MIP)',
+            value: (p) => p.annualMortgageInsurance,
+            tone: 'expense',
+            show: (p) => p.annualMortgageInsurance > 0,
+          },
+          { label: 'Property Tax', value: (p) => p.annualPropertyTax, tone: 'expense' },
+          { label: 'Home Insurance', value: (p) => p.annualHomeInsurance, tone: 'expense' },
+          { label: 'HOA', value: (p) => p.annualHOA, tone: 'expense' },
+          { label: 'Utilities', value: (p) => p.annualUtilities, tone: 'expense' },
+          capexReserveLine,
+          { label: 'Opportunity Cost', value: (p) => p.opportunityCost, tone: 'expense' },
+          { label: 'Total Annual Cost', value: (p) => p.totalExpenses, bold: true },
+        ],
+      },
+      {
+        title: 'Tax Savings Breakdown',
+        lines: [
+          {
+            label: (_, personal) => `State Income Tax (${formatPercent(personal.stateTaxRate)} of W-2)`,
+            value: (p) => p.stateIncomeTax,
+          },
+          { label: '+ Property Tax', value: (p) => p.annualPropertyTax },
+          {
+            label: (p) => (isFinite(p.saltCap) ? `SALT Deduction (Capped at ${formatCurrency(p.saltCap)})` : 'SALT Deduction'),
+            value: (p) => p.saltDeduction,
+          },
+          { label: 'Mortgage Interest', value: (p) => p.annualInterest },
+          {
+            label: (p) => `Deductible Interest (First ${formatCurrency(p.mortgageDebtLimit)} of Debt)`,
+            value: (p) => p.deductibleInterest,
+          },
+          { label: 'Discount Points', value: (p) => p.deductiblePoints, show: (p) => p.deductiblePoints > 0 },
+          { label: 'Itemized Deductions', value: (p) => p.itemizedDeductions, bold: true },
+          { label: 'Standard Deduction', value: (p) => p.standardDeduction },
+          { label: 'Deduction Without the Home', value: (p) => p.baselineDeduction, tone: 'expense' },
+          {
+            label: (p) => (p.itemizes ? 'Incremental Deduction (Itemizing)' : 'Incremental Deduction (Standard Is Higher)'),
+            value: (p) => p.incrementalDeduction,
+            bold: true,
+          },
+          { label: 'Federal Tax Savings (Brackets)', value: (p) => p.federalTaxBenefit },
+          {
+            label: (_, personal) => `State Tax Savings (${formatPercent(personal.stateTaxRate)})`,
+            value: (p) => p.stateTaxBenefit,
+          },
+          { label: 'Total Tax Savings', value: (p) => p.taxBenefit, bold: true },
+        ],
+      },
+    ],
+    projection: {
+      incomeLabel: 'Avoided Rent',
+      cashFlowLabel: 'Net Benefit',
+      cumulativeLabel: 'Cumulative Benefit',
+      income: (p) => p.grossAvoidedRent,
+    },
+  },
+};
@@ -0,0 +1,26 @@
+import type { Scenario, ScenarioDefinition } from '../types';
+
+const scenarios = new Map<Scenario, ScenarioDefinition>();
+
+/**
+ * Adds a scenario to the registry. Tabs, the assumption editor and the
+ * proforma display list scenarios in registration order.
+ */
+export const registerScenario = <S extends Scenario>(definition: ScenarioDefinition<S>): void => {
+  // Each definition is typed against its own proforma; the registry holds them all
+  scenarios.set(definition.id, definition as unknown as ScenarioDefinition);
+};
+
+/**
+ * Looks up a registered scenario by id.
+ */
+export const getScenario = (id: Scenario): ScenarioDefinition => {
+  const definition = scenarios.get(id);
+  if (!definition) throw new Error(`Unknown scenario: ${id}`);
+  return definition;
+};
+
+/**
+ * All registered scenarios, in registration order.
+ */
+export const getScenarios = (): ScenarioDefinition[] => Array.from(scenarios.values());
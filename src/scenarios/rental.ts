@@ -0,0 +1,39 @@
+import type { ScenarioDefinition } from '../types';
+import {
+  RENTAL_INPUTS,
+  buildRentalExpenseDrillDown,
+  calculateRentalProforma,
+  costSegregationDrillDown,
+  getLongTermRentIncome,
+  longTermIncomeDrillDown,
+  rentalMetrics,
+  rentalProjection,
+  rentalStatement,
+  rentalTaxDrillDown,
+} from './rentalStatement';
+
+/**
+ * Long-term rental: unfurnished, annual leases.
+ */
+export const rentalScenario: ScenarioDefinition<'rental'> = {
+  id: 'rental',
+  label: 'Long-Term Rental',
+  icon: 'briefcase',
+  fields: [{ key: 'monthlyRent' }],
+  sharedInputs: [...RENTAL_INPUTS, 'vacancyPercent'],
+  passiveActivity: 'rental',
+  calculate: (context) => calculateRentalProforma(context, getLongTermRentIncome(context)),
+  annualCashFlow: (p) => p.cashFlowAfterTax,
+  display: {
+    metrics: rentalMetrics,
+    statementTitle: 'Simplified Proforma (Year 1)',
+    statement: rentalStatement,
+    drillDowns: [
+      longTermIncomeDrillDown,
+      buildRentalExpenseDrillDown(),
+      rentalTaxDrillDown,
+      costSegregationDrillDown,
+    ],
+    projection: rentalProjection,
+  },
+};
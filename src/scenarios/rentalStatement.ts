@@ -0,0 +1,347 @@
+import type { Assumptions, DisplayDrillDown, DisplayLine, DisplayMetric, NumericKey, PassiveActivity, PassiveLossTreatment, ProformaContext, RefinanceProforma, RentalIncome, RentalProforma } from '../types';
+import { calculateMarginalTaxEffect } from '../utils/tax';
+import { applyPassiveActivityRules } from '../utils/passiveLoss';
+import { formatCurrency, formatPercent } from '../utils/calculations';
+import { calculateUnderwriting } from '../utils/underwriting';
+import { getScenario } from './registry';
+
+type RentalLike = RentalProforma | RefinanceProforma;
+
+export const PASSIVE_LOSS_LABELS: Record<PassiveLossTreatment, string> = {
+  'non-passive': 'Non-Passive',
+  'active-participation': 'Active Participation',
+  'passive': 'Passive',
+};
+
+/**
+ * Long-term rent: 12 months of rent less the vacancy allowance.
+ */
+export const getLongTermRentIncome = ({ assumptions, incomeGrowth }: ProformaContext): RentalIncome => {
+  const grossPotentialIncome = assumptions.monthlyRent * 12 * incomeGrowth;
+  return {
+    grossPotentialIncome,
+    vacancyLoss: grossPotentialIncome * assumptions.vacancyPercent,
+    platformFee: 0,
+    shortTermRental: null,
+    midTermRental: null,
+  };
+};
+
+/**
+ * Inputs every scenario with rental income depends on: management fee,
+ * depreciation and cost segregation.
+ */
+export const RENTAL_INPUTS: NumericKey<Assumptions>[] = [
+  'mgmtFeePercent',
+  'landValuePercent',
+  'furnishingsRecoveryYears',
+  'costSegFiveYearPercent',
+  'costSegSevenYearPercent',
+  'costSegFifteenYearPercent',
+  'placedInServiceYear',
+];
+
+/**
+ * How the passive-loss rules treat the scenario's rental income.
+ */
+export const getPassiveActivity = ({ scenario }: ProformaContext): PassiveActivity => {
+  return getScenario(scenario).passiveActivity ?? 'rental';
+};
+
+/**
+ * The rental income statement shared by every rent-collecting scenario:
+ * operating expenses, debt service, depreciation, passive-loss rules and
+ * the resulting tax effect, from the scenario's own income.
+ */
+export const calculateRentalProforma = (context: ProformaContext, income: RentalIncome): RentalProforma => {
+  const { assumptions, personal, year, priorSuspendedLosses, base, loanYear } = context;
+  const { loanTerm, maintenancePercent, mgmtFeePercent, purchasePrice } = assumptions;
+  const { grossPotentialIncome, vacancyLoss, platformFee, shortTermRental, midTermRental } = income;
+
+  const annualMortgagePayment = loanYear.payment;
+  const annualInterest = loanYear.interest;
+  const { annualMortgageInsurance, pointsCost, totalCashNeeded, opportunityCost } = base;
+
+  const effectiveGrossIncome = grossPotentialIncome - vacancyLoss;
+
+  // --- Scenario-Specific OpEx ---
+  const maintenance = effectiveGrossIncome * maintenancePercent;
+  const managementFee = effectiveGrossIncome * mgmtFeePercent;
+  const shortTermRentalCosts = shortTermRental
+    ? shortTermRental.cleaningCost + shortTermRental.consumablesCost + shortTermRental.lodgingTax
+    : 0;
+  const midTermTurnoverCost = midTermRental ? midTermRental.turnoverCost : 0;
+
+  const totalOpEx =
+    base.annualPropertyTax +
+    base.annualHomeInsurance +
+    base.annualHOA +
+    base.annualUtilities +
+    maintenance +
+    managementFee +
+    platformFee +
+    shortTermRentalCosts +
+    midTermTurnoverCost;
+
+  // Total Expenses (User's definition: all cash out + opportunity cost)
+  const totalExpenses = totalOpEx + base.capexReserve + annualMortgagePayment + annualMortgageInsurance + opportunityCost;
+
+  // --- Investment Calculations ---
+  // The capex reserve is set aside below NOI and is not deductible
+  const netOperatingIncome = effectiveGrossIncome - totalOpEx;
+  const cashFlowBeforeTax = netOperatingIncome - base.capexReserve - annualMortgagePayment - annualMortgageInsurance;
+
+  // --- Tax Calculations ---
+  // Points on a rental loan are amortized over the life of the loan
+  const pointsAmortization = year <= loanTerm && loanTerm > 0 ? pointsCost / loanTerm : 0;
+
+  const deductibleExpenses =
+    totalOpEx +
+    annualInterest +
+    annualMortgageInsurance +
+    pointsAmortization +
+    context.annualDepreciation;
+
+  const netTaxableIncome = effectiveGrossIncome - deductibleExpenses;
+
+  // Passive losses may be limited and carried forward
+  const activity = getPassiveActivity(context);
+  const passiveLoss = applyPassiveActivityRules(netTaxableIncome, personal, activity, priorSuspendedLosses);
+
+  // Positive = tax saved by a loss, negative = tax owed on income
+  const taxEffect = calculateMarginalTaxEffect(personal, passiveLoss.taxableIncome);
+  const federalTaxBenefit = -taxEffect.federalTaxChange;
+  const stateTaxBenefit = -taxEffect.stateTaxChange;
+  const taxBenefit = federalTaxBenefit + stateTaxBenefit;
+  const cashFlowAfterTax = cashFlowBeforeTax + taxBenefit;
+
+  // Extra tax benefit from cost segregation over depreciating without it
+  const baselineDepreciation = context.baselineDepreciation.total;
+  const baselinePassiveLoss = applyPassiveActivityRules(
+    netTaxableIncome + context.annualDepreciation - baselineDepreciation,
+    personal,
+    activity,
+    priorSuspendedLosses
+  );
+  const costSegregationTaxImpact = taxBenefit + calculateMarginalTaxEffect(personal, baselinePassiveLoss.taxableIncome).totalTaxChange;
+
+  return {
+    ...base,
+    scenario: context.scenario as RentalProforma['scenario'],
+    // Income
+    grossPotentialIncome,
+    vacancyLoss,
+    effectiveGrossIncome,
+    // Expenses
+    totalOpEx,
+    maintenance,
+    managementFee,
+    platformFee,
+    shortTermRental,
+    midTermRental,
+    annualMortgagePayment,
+    totalExpenses,
+    // Profit
+    cashFlowBeforeTax,
+    // Taxes
+    annualInterest,
+    pointsAmortization,
+    buildingDepreciation: context.buildingDepreciation,
+    costSegregationDepreciation: context.costSegregationDepreciation,
+    furnishingsDepreciation: context.furnishingsDepreciation,
+    annualDepreciation: context.annualDepreciation,
+    depreciation: context.depreciation,
+    baselineDepreciation,
+    costSegregationTaxImpact,
+    netTaxableIncome,
+    passiveLossTreatment: passiveLoss.treatment,
+    priorSuspendedLosses,
+    passiveLossAllowed: passiveLoss.allowedLoss,
+    suspendedLossCarryforward: passiveLoss.suspendedLossCarryforward,
+    taxableIncomeAfterPassiveRules: passiveLoss.taxableIncome,
+    federalTaxBenefit,
+    stateTaxBenefit,
+    taxBenefit,
+    // Final
+    cashFlowAfterTax,
+    // Metrics
+    capRate: netOperatingIncome / purchasePrice,
+    cashOnCashReturn: cashFlowAfterTax / totalCashNeeded,
+    cashFlowPerMonth: cashFlowAfterTax / 12,
+    underwriting: calculateUnderwriting(assumptions, {
+      grossPotentialIncome,
+      effectiveGrossIncome,
+      totalOpEx,
+      debtService: annualMortgagePayment + annualMortgageInsurance,
+    }),
+  };
+};
+
+// --- Shared Display Spec ---
+
+export const totalCashNeededMetric: DisplayMetric<{ totalCashNeeded: number; startupCapital: number }> = {
+  label: 'Total Cash Needed',
+  value: (p) => p.totalCashNeeded,
+  tooltip: (p) => (p.startupCapital > 0 ? `Includes ${formatCurrency(p.startupCapital)} of startup capital.` : undefined),
+};
+
+export const rentalMetrics: DisplayMetric<RentalLike>[] = [
+  { label: 'Cap Rate', value: (p) => p.capRate, format: 'percent', good: () => true },
+  { label: 'Cash on Cash (ROI)', value: (p) => p.cashOnCashReturn, format: 'percent', good: () => true },
+  {
+    label: 'Monthly Cash Flow',
+    value: (p) => p.cashFlowPerMonth,
+    good: (p) => p.cashFlowPerMonth > 0,
+    bad: (p) => p.cashFlowPerMonth < 0,
+  },
+  totalCashNeededMetric,
+];
+
+export const rentalStatement: DisplayLine<RentalLike>[] = [
+  { label: 'Total Annual Income', value: (p) => p.effectiveGrossIncome },
+  { label: 'Total Annual Expenses', value: (p) => p.totalExpenses, tone: 'expense' },
+  { label: 'Net Cash Flow (Before Tax)', value: (p) => p.cashFlowBeforeTax, bold: true },
+  { label: 'Tax Benefit (Savings / Owed)', value: (p) => p.taxBenefit, tone: 'signed' },
+  { label: 'Net Cash Flow (After Tax)', value: (p) => p.cashFlowAfterTax, bold: true, final: true },
+];
+
+export const effectiveGrossIncomeLine: DisplayLine<RentalLike> = {
+  label: 'Effective Gross Income',
+  value: (p) => p.effectiveGrossIncome,
+  bold: true,
+};
+
+export const longTermIncomeDrillDown: DisplayDrillDown<RentalLike> = {
+  title: 'Income Breakdown',
+  lines: [
+    { label: 'Gross Potential Income', value: (p) => p.grossPotentialIncome },
+    { label: 'Vacancy Loss', value: (p) => p.vacancyLoss, tone: 'expense' },
+    effectiveGrossIncomeLine,
+  ],
+};
+
+export const capexReserveLine: DisplayLine<{ capexReserve: number }> = {
+  label: 'CapEx Reserve',
+  value: (p) => p.capexReserve,
+  tone: 'expense',
+  show: (p) => p.capexReserve > 0,
+};
+
+/**
+ * Expense breakdown for rental scenarios, with any scenario-specific
+ * operating costs inserted after management.
+ */
+export const buildRentalExpenseDrillDown = (scenarioCosts: DisplayLine<RentalLike>[] = []): DisplayDrillDown<RentalLike> => ({
+  title: 'Expense Breakdown',
+  lines: [
+    { label: 'Property Tax', value: (p) => p.annualPropertyTax, tone: 'expense' },
+    { label: 'Home Insurance', value: (p) => p.annualHomeInsurance, tone: 'expense' },
+    { label: 'HOA', value: (p) => p.annualHOA, tone: 'expense' },
+    { label: 'Utilities', value: (p) => p.annualUtilities, tone: 'expense' },
+    { label: 'Maintenance', value: (p) => p.maintenance, tone: 'expense' },
+    { label: 'Management Fee', value: (p) => p.managementFee, tone: 'expense' },
+    ...scenarioCosts,
+    capexReserveLine,
+    { label: 'Mortgage Interest (Expense)', value: (p) => p.annualInterest, tone: 'expense' },
+    { label: 'Mortgage Principal (Equity)', value: (p) => p.annualPrincipal, tone: 'expense' },
+    {
+      label: 'Mortgage Insurance (PMI/MIP)',
+      value: (p) => p.annualMortgageInsurance,
+      tone: 'expense',
+      show: (p) => p.annualMortgageInsurance > 0,
+    },
+    { label: 'Opportunity Cost', value: (p) => p.opportunityCost, tone: 'expense' },
+    { label: 'Total Expenses', value: (p) => p.totalExpenses, bold: true },
+  ],
+});
+
+export const costSegregationDepreciationLine: DisplayLine<{ costSegregationDepreciation: number }> = {
+  label: 'Depreciation (Cost Segregation, incl. Bonus)',
+  value: (p) => p.costSegregationDepreciation,
+  tone: 'expense',
+  show: (p) => p.costSegregationDepreciation > 0,
+};
+
+type CostSegregationLike = Pick<RentalProforma, 'depreciation' | 'annualDepreciation' | 'baselineDepreciation' | 'costSegregationTaxImpact' | 'costSegregationDepreciation'>;
+
+/**
+ * Year 1 depreciation and tax benefit from cost segregation, against
+ * depreciating the whole building over 27.5 years.
+ */
+export const costSegregationDrillDown: DisplayDrillDown<CostSegregationLike> = {
+  title: 'Cost Segregation Impact (Year 1)',
+  show: (p) => p.costSegregationDepreciation > 0,
+  lines: [
+    { label: 'Depreciation Without Cost Segregation', value: (p) => p.baselineDepreciation },
+    { label: '5-Year Property', value: (p) => p.depreciation.fiveYear, show: (p) => p.depreciation.fiveYear > 0 },
+    { label: '7-Year Property', value: (p) => p.depreciation.sevenYear, show: (p) => p.depreciation.sevenYear > 0 },
+    { label: '15-Year Property', value: (p) => p.depreciation.fifteenYear, show: (p) => p.depreciation.fifteenYear > 0 },
+    { label: 'Remaining Building (27.5-yr)', value: (p) => p.depreciation.building },
+    { label: 'Furnishings', value: (p) => p.depreciation.furnishings, show: (p) => p.depreciation.furnishings > 0 },
+    { label: 'Depreciation With Cost Segregation', value: (p) => p.annualDepreciation, bold: true },
+    { label: 'Additional Depreciation', value: (p) => p.annualDepreciation - p.baselineDepreciation },
+    { label: 'Additional Tax Benefit', value: (p) => p.costSegregationTaxImpact, tone: 'signed', bold: true },
+  ],
+};
+
+export const pointsAmortizationLine: DisplayLine<{ pointsAmortization: number }> = {
+  label: 'Discount Points (Amortized)',
+  value: (p) => p.pointsAmortization,
+  tone: 'expense',
+  show: (p) => p.pointsAmortization > 0,
+};
+
+export const rentalTaxDrillDown: DisplayDrillDown<RentalLike> = {
+  title: 'Tax Calculation Breakdown',
+  lines: [
+    { label: 'Effective Gross Income', value: (p) => p.effectiveGrossIncome },
+    { label: 'Total Operating Expenses', value: (p) => p.totalOpEx, tone: 'expense' },
+    { label: 'Net Operating Income (NOI)', value: (p) => p.effectiveGrossIncome - p.totalOpEx, bold: true },
+    { label: 'Interest Expense', value: (p) => p.annualInterest, tone: 'expense' },
+    {
+      label: 'Mortgage Insurance',
+      value: (p) => p.annualMortgageInsurance,
+      tone: 'expense',
+      show: (p) => p.annualMortgageInsurance > 0,
+    },
+    pointsAmortizationLine,
+    { label: 'Depreciation (27.5-yr Building)', value: (p) => p.buildingDepreciation, tone: 'expense' },
+    costSegregationDepreciationLine,
+    {
+      label: 'Depreciation (Furnishings)',
+      value: (p) => p.furnishingsDepreciation,
+      tone: 'expense',
+      show: (p) => p.furnishingsDepreciation > 0,
+    },
+    { label: 'Net Taxable Income / (Loss)', value: (p) => p.netTaxableIncome, bold: true },
+    {
+      label: 'Prior Suspended Losses',
+      value: (p) => p.priorSuspendedLosses,
+      show: (p) => p.priorSuspendedLosses > 0,
+    },
+    {
+      label: (p) => `Loss Allowed (${PASSIVE_LOSS_LABELS[p.passiveLossTreatment]})`,
+      value: (p) => p.passiveLossAllowed,
+    },
+    {
+      label: 'Suspended Loss Carried Forward',
+      value: (p) => p.suspendedLossCarryforward,
+      show: (p) => p.suspendedLossCarryforward > 0,
+    },
+    { label: 'Taxable Income After Passive Loss Rules', value: (p) => p.taxableIncomeAfterPassiveRules, bold: true },
+    { label: 'Federal Tax Effect (Brackets)', value: (p) => p.federalTaxBenefit, tone: 'signed' },
+    {
+      label: (_, personal) => `State Tax Effect (${formatPercent(personal.stateTaxRate)})`,
+      value: (p) => p.stateTaxBenefit,
+      tone: 'signed',
+    },
+    { label: 'Tax Benefit (Savings / Owed)', value: (p) => p.taxBenefit, bold: true },
+  ],
+};
+
+export const rentalProjection = {
+  incomeLabel: 'Income',
+  cashFlowLabel: 'Cash Flow',
+  cumulativeLabel: 'Cumulative Cash Flow',
+  income: (p: RentalLike) => p.effectiveGrossIncome,
+};
@@ -75,7 +75,13 @@ export function injectGlobalStyles() {
     }
 
     /* No icon padding */
-    #address, #purchasePrice, #monthlyRent, #avgNightlyRate, #equivalentRent, #monthlyHOA, #utilitiesMonthly, #loanTerm {
+    #address, #purchasePrice, #monthlyRent, #avgNightlyRate, #equivalentRent, #monthlyHOA, #utilitiesMonthly, #loanTerm, #holdPeriodYears,
+    #rehabCost, #appraisedValue, #refinanceMonth, #refinanceLoanTerm,
+    #loanProgram, #rateType, #discountPoints, #interestOnlyYears,
+    #filingStatus, #w2Income, #taxYear, #suspendedLossCarryforward,
+    #avgStayNights, #cleaningFee, #cleaningCostPerTurnover, #consumablesPerStay, #furnishingsRecoveryYears,
+    #houseHackRentType, #houseHackUnitRent, #rentPerRoom, #roomsRented,
+    #midTermMonthlyRent, #midTermStayMonths, #midTermTurnoverCost {
       padding-left: 0.75rem; /* pl-3 */
     }
 
@@ -7,18 +7,45 @@ export interface Property {
   year: number;
 }
 
+export type LoanProgram = 'conventional' | 'fha';
+
+export type RateType = 'fixed' | 'arm-5-1' | 'arm-7-1';
+
 export interface Assumptions {
   purchasePrice: number;
   downPaymentPercent: number;
   interestRate: number;
   loanTerm: number;
   closingCostsPercent: number;
+  loanProgram: LoanProgram;
+  rateType: RateType;
+  discountPoints: number;
+  pointRateReduction: number;
+  pmiRate: number;
+  fhaUpfrontMipPercent: number;
+  fhaAnnualMipRate: number;
+  armIndexRate: number;
+  armMarginPercent: number;
+  armInitialCapPercent: number;
+  armPeriodicCapPercent: number;
+  armLifetimeCapPercent: number;
+  interestOnlyYears: number;
   landValuePercent: number;
   monthlyRent: number;
   vacancyPercent: number;
   avgNightlyRate: number;
   occupancyRate: number;
+  strCalendar: StrCalendarMonth[];
+  avgStayNights: number;
+  cleaningFee: number;
+  cleaningCostPerTurnover: number;
+  consumablesPerStay: number;
+  lodgingTaxRate: number;
   airbnbFeePercent: number;
+  midTermMonthlyRent: number;
+  midTermOccupancyRate: number;
+  midTermStayMonths: number;
+  midTermTurnoverCost: number;
   equivalentRent: number;
   propertyTaxPercent: number;
   homeInsurancePercent: number;
@@ -26,29 +53,271 @@ export interface Assumptions {
   maintenancePercent: number;
   utilitiesMonthly: number;
   mgmtFeePercent: number;
+  holdPeriodYears: number;
+  rentGrowthRate: number;
+  expenseGrowthRate: number;
+  appreciationRate: number;
+  sellingCommissionPercent: number;
+  transferTaxPercent: number;
+  ownerOccupiedPercent: number;
+  houseHackRentType: HouseHackRentType;
+  houseHackUnitRent: number;
+  rentPerRoom: number;
+  roomsRented: number;
+  startupCosts: StartupCostItem[];
+  furnishingsRecoveryYears: FurnishingsRecoveryYears;
+  costSegregationEnabled: boolean;
+  costSegFiveYearPercent: number;
+  costSegSevenYearPercent: number;
+  costSegFifteenYearPercent: number;
+  placedInServiceYear: number;
+  bonusDepreciationRates: BonusDepreciationRate[];
+  capexComponents: CapexComponent[];
+  underwritingThresholds: UnderwritingThresholds;
+  rehabCost: number;
+  refinanceMonth: number;
+  appraisedValue: number;
+  refinanceLtvPercent: number;
+  refinanceInterestRate: number;
+  refinanceLoanTerm: number;
+  refinanceClosingCostsPercent: number;
+}
+
+export interface MidTermIncome {
+  monthlyRent: number;
+  occupancyRate: number;
+  monthsOccupied: number;
+  turnovers: number;
+  grossPotentialRent: number;
+  vacancyLoss: number;
+  turnoverCost: number;
+}
+
+export type HouseHackRentType = 'unit' | 'per-room';
+
+export type FurnishingsRecoveryYears = 5 | 7;
+
+export type MacrsRecoveryYears = FurnishingsRecoveryYears | 15;
+
+// Bonus depreciation for property placed in service from `year` on
+export interface BonusDepreciationRate {
+  year: number;
+  rate: number;
+}
+
+// One year's depreciation by asset class; cost-segregated classes include bonus
+export interface DepreciationYear {
+  year: number;
+  building: number;
+  fiveYear: number;
+  sevenYear: number;
+  fifteenYear: number;
+  furnishings: number;
+  total: number;
+}
+
+// Pass/fail limits for the underwriting checks
+export interface UnderwritingThresholds {
+  minDebtServiceCoverage: number;
+  maxGrossRentMultiplier: number;
+  maxBreakEvenOccupancy: number;
+  maxOperatingExpenseRatio: number;
+  maxPriceToRentRatio: number;
+  // Monthly gross income as a share of price (the 1% rule)
+  minMonthlyRentToPrice: number;
+  // Share of gross income assumed to go to operating expenses (the 50% rule)
+  fiftyPercentRuleExpenseShare: number;
+}
+
+// Lender and investor ratios for a rental's year
+export interface UnderwritingMetrics {
+  netOperatingIncome: number;
+  debtService: number;
+  debtServiceCoverageRatio: number;
+  grossRentMultiplier: number;
+  breakEvenOccupancy: number;
+  operatingExpenseRatio: number;
+  priceToRentRatio: number;
+  monthlyRentToPrice: number;
+  // Cash flow with operating expenses estimated at the 50% rule's share
+  fiftyPercentRuleCashFlow: number;
+}
+
+export interface UnderwritingCheck {
+  label: string;
+  value: number;
+  format: DisplayFormat;
+  threshold: number;
+  // Whether the value must be at least or at most the threshold
+  limit: 'min' | 'max';
+  passed: boolean;
+  description: string;
+}
+
+export interface StartupCostItem {
+  label: string;
+  amount: number;
+  scenario: Scenario;
+  depreciable: boolean;
+}
+
+// A building component replaced on a schedule (roof, HVAC, ...); `age` is
+// its age at purchase, in years
+export interface CapexComponent {
+  label: string;
+  replacementCost: number;
+  usefulLife: number;
+  age: number;
+}
+
+export interface CapexReplacement {
+  year: number;
+  label: string;
+  cost: number;
+}
+
+export interface StrCalendarMonth {
+  nightlyRate: number;
+  occupancyRate: number;
+}
+
+export interface StrMonth {
+  month: number;
+  nightlyRate: number;
+  occupancyRate: number;
+  nightsBooked: number;
+  stays: number;
+  rentRevenue: number;
+  cleaningFeeRevenue: number;
+  revenue: number;
 }
 
+export interface StrIncome {
+  months: StrMonth[];
+  nightsBooked: number;
+  stays: number;
+  rentRevenue: number;
+  cleaningFeeRevenue: number;
+  grossRevenue: number;
+  cleaningCost: number;
+  consumablesCost: number;
+  lodgingTax: number;
+}
+
+export type FilingStatus = 'single' | 'married-joint' | 'married-separate' | 'head-of-household';
+
+export type TaxYear = '2024' | '2026-sunset';
+
+// Simple: the cash's return each year on the original amount; compounding:
+// the return forgone on what it would have grown to
+export type OpportunityCostMethod = 'simple' | 'compounding';
+
 export interface PersonalInfo {
-  federalTaxRate: number;
+  filingStatus: FilingStatus;
+  w2Income: number;
+  taxYear: TaxYear;
   stateTaxRate: number;
+  activeParticipation: boolean;
+  realEstateProfessional: boolean;
+  strMaterialParticipation: boolean;
+  suspendedLossCarryforward: number;
   opportunityCostRate: number;
+  opportunityCostMethod: OpportunityCostMethod;
+  inflationRate: number;
+  capitalGainsRate: number;
+}
+
+export interface TaxBracket {
+  rate: number;
+  upTo: number;
+}
+
+export interface TaxRuleSet {
+  label: string;
+  brackets: Record<FilingStatus, TaxBracket[]>;
+  standardDeduction: Record<FilingStatus, number>;
+  personalExemption: number;
+  saltCap: Record<FilingStatus, number>;
+  mortgageDebtLimit: Record<FilingStatus, number>;
 }
 
-export type Scenario = 'rental' | 'airbnb' | 'owner';
+export interface HomeDeductionInputs {
+  propertyTax: number;
+  mortgageInterest: number;
+  averageMortgageBalance: number;
+  points: number;
+}
+
+export interface ItemizedDeductions {
+  standardDeduction: number;
+  stateIncomeTax: number;
+  saltCap: number;
+  saltDeduction: number;
+  deductiblePropTax: number;
+  mortgageDebtLimit: number;
+  deductibleInterest: number;
+  deductiblePoints: number;
+  itemizedDeductions: number;
+  baselineDeduction: number;
+  itemizes: boolean;
+  incrementalDeduction: number;
+}
+
+export interface TaxEffect {
+  federalTaxChange: number;
+  stateTaxChange: number;
+  totalTaxChange: number;
+}
+
+export type PassiveLossTreatment = 'non-passive' | 'active-participation' | 'passive';
+
+// Short-term stays (average 7 days or less) aren't a rental activity for the passive-loss rules
+export type PassiveActivity = 'rental' | 'short-term';
+
+export interface PassiveLossResult {
+  treatment: PassiveLossTreatment;
+  taxableIncome: number;
+  allowedLoss: number;
+  suspendedLossCarryforward: number;
+}
+
+// Proforma produced by each scenario, keyed by scenario id. In-house scenarios
+// add their own entry with `declare module` and register a definition.
+export interface ScenarioProformas {
+  'rental': RentalProforma;
+  'airbnb': RentalProforma;
+  'mid-term': RentalProforma;
+  'brrrr': RefinanceProforma;
+  'owner': OwnerProforma;
+  'house-hack': HouseHackProforma;
+}
+
+export type Scenario = keyof ScenarioProformas;
+
+export interface ProformaOptions {
+  year?: number;
+  priorSuspendedLosses?: number;
+}
 
 export interface BaseProforma {
   scenario: Scenario;
+  year: number;
   totalCashNeeded: number;
+  startupCapital: number;
   annualPropertyTax: number;
   annualHomeInsurance: number;
   annualHOA: number;
   annualUtilities: number;
+  capexReserve: number;
   opportunityCost: number;
-  year1Principal: number;
+  annualPrincipal: number;
+  annualMortgageInsurance: number;
+  pointsCost: number;
+  endingLoanBalance: number;
 }
 
 export interface RentalProforma extends BaseProforma {
-  scenario: 'rental' | 'airbnb';
+  scenario: 'rental' | 'airbnb' | 'mid-term';
   grossPotentialIncome: number;
   vacancyLoss: number;
   effectiveGrossIncome: number;
@@ -56,28 +325,46 @@ export interface RentalProforma extends BaseProforma {
   maintenance: number;
   managementFee: number;
   platformFee: number;
+  shortTermRental: StrIncome | null;
+  midTermRental: MidTermIncome | null;
   annualMortgagePayment: number;
   totalExpenses: number;
   cashFlowBeforeTax: number;
-  year1Interest: number;
+  annualInterest: number;
+  // Discount points deducted this year, spread over the loan term
+  pointsAmortization: number;
+  buildingDepreciation: number;
+  costSegregationDepreciation: number;
+  furnishingsDepreciation: number;
   annualDepreciation: number;
+  depreciation: DepreciationYear;
+  baselineDepreciation: number;
+  costSegregationTaxImpact: number;
   netTaxableIncome: number;
+  passiveLossTreatment: PassiveLossTreatment;
+  priorSuspendedLosses: number;
+  passiveLossAllowed: number;
+  suspendedLossCarryforward: number;
+  taxableIncomeAfterPassiveRules: number;
+  federalTaxBenefit: number;
+  stateTaxBenefit: number;
   taxBenefit: number;
   cashFlowAfterTax: number;
   capRate: number;
   cashOnCashReturn: number;
   cashFlowPerMonth: number;
+  underwriting: UnderwritingMetrics;
 }
 
-export interface OwnerProforma extends BaseProforma {
+export interface OwnerProforma extends BaseProforma, ItemizedDeductions {
   scenario: 'owner';
   grossAvoidedRent: number;
   totalAnnualCost: number;
   totalExpenses: number;
   annualPITI: number;
-  year1Interest: number;
-  deductiblePropTax: number;
-  totalDeductions: number;
+  annualInterest: number;
+  federalTaxBenefit: number;
+  stateTaxBenefit: number;
   taxBenefit: number;
   netAnnualCost: number;
   netBenefit: number;
@@ -85,4 +372,529 @@ export interface OwnerProforma extends BaseProforma {
   netMonthlyCost: number;
 }
 
-export type Proforma = RentalProforma | OwnerProforma;
+export interface HouseHackProforma extends BaseProforma, ItemizedDeductions {
+  scenario: 'house-hack';
+  ownerOccupiedPercent: number;
+  rentalShare: number;
+  // Rented portion
+  grossPotentialIncome: number;
+  vacancyLoss: number;
+  effectiveGrossIncome: number;
+  maintenance: number;
+  managementFee: number;
+  rentalOperatingExpenses: number;
+  rentalNetOperatingIncome: number;
+  rentalDebtService: number;
+  rentalCapexReserve: number;
+  rentalCashFlowBeforeTax: number;
+  annualInterest: number;
+  // Rental share of the discount points deducted this year
+  pointsAmortization: number;
+  buildingDepreciation: number;
+  costSegregationDepreciation: number;
+  furnishingsDepreciation: number;
+  annualDepreciation: number;
+  depreciation: DepreciationYear;
+  baselineDepreciation: number;
+  costSegregationTaxImpact: number;
+  netTaxableIncome: number;
+  passiveLossTreatment: PassiveLossTreatment;
+  priorSuspendedLosses: number;
+  passiveLossAllowed: number;
+  suspendedLossCarryforward: number;
+  taxableIncomeAfterPassiveRules: number;
+  rentalTaxBenefit: number;
+  rentalCashFlowAfterTax: number;
+  rentalCashInvested: number;
+  rentalCapRate: number;
+  rentalCashOnCashReturn: number;
+  // Whole property, from the owner's point of view
+  annualMortgagePayment: number;
+  totalAnnualCost: number;
+  totalExpenses: number;
+  ownerTaxSavings: number;
+  federalTaxBenefit: number;
+  stateTaxBenefit: number;
+  taxBenefit: number;
+  grossAvoidedRent: number;
+  netAnnualCost: number;
+  netMonthlyCost: number;
+  netBenefit: number;
+}
+
+export interface RefinanceProforma extends Omit<RentalProforma, 'scenario'> {
+  scenario: 'brrrr';
+  rehabCost: number;
+  refinanceYear: number;
+  payoffBalance: number;
+  refinanceLoanAmount: number;
+  refinanceClosingCosts: number;
+  cashOut: number;
+  cashOutThisYear: number;
+  cashLeftInDeal: number;
+  refinanceAnnualMortgagePayment: number;
+  postRefinanceCashFlow: number;
+}
+
+export type Proforma = ScenarioProformas[Scenario];
+
+export interface ProformaContext {
+  assumptions: Assumptions;
+  personal: PersonalInfo;
+  scenario: Scenario;
+  year: number;
+  priorSuspendedLosses: number;
+  base: BaseProforma;
+  refinance: RefinanceTerms | null;
+  loanYear: AmortizationYear;
+  incomeGrowth: number;
+  expenseGrowth: number;
+  capitalImprovements: number;
+  startupCapital: { total: number; depreciable: number };
+  buildingDepreciation: number;
+  costSegregationDepreciation: number;
+  furnishingsDepreciation: number;
+  annualDepreciation: number;
+  depreciation: DepreciationYear;
+  baselineDepreciation: DepreciationYear;
+}
+
+export interface RentalIncome {
+  grossPotentialIncome: number;
+  vacancyLoss: number;
+  platformFee: number;
+  shortTermRental: StrIncome | null;
+  midTermRental: MidTermIncome | null;
+}
+
+// --- Field Schema ---
+
+export type FieldUnit = 'currency' | 'percent' | 'years' | 'count';
+
+// How to label, bound, display and parse one numeric input
+export interface FieldMeta {
+  unit: FieldUnit;
+  label: string;
+  tooltip?: string;
+  // Percents are stored as fractions but bounded and stepped in whole percents (e.g. 0-100)
+  min?: number;
+  max?: number;
+  step: number;
+}
+
+export type NumericKey<T> = { [K in keyof T]-?: T[K] extends number ? K : never }[keyof T];
+
+// Metadata for every numeric key of T
+export type FieldSchema<T> = Record<NumericKey<T>, FieldMeta>;
+
+// --- Validation ---
+
+// Errors block the calculation; warnings flag values outside the usual market range
+export type ValidationSeverity = 'error' | 'warning';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  // The input to change; cross-field issues name one of the inputs involved
+  key: NumericKey<Assumptions> | NumericKey<PersonalInfo> | NumericKey<UnderwritingThresholds> | 'strCalendar';
+  message: string;
+}
+
+export interface ValidationResult {
+  errors: ValidationIssue[];
+  warnings: ValidationIssue[];
+}
+
+// --- Scenario Registry ---
+
+// Scenario fields that are not numbers, and so have no entry in the field schema
+export type AssumptionFieldKind = 'select' | 'str-calendar';
+
+export interface AssumptionField {
+  key: keyof Assumptions;
+  // Numeric fields take their label, unit and bounds from the field schema
+  kind?: AssumptionFieldKind;
+  label?: string;
+  options?: { value: string; label: string }[];
+  visible?(assumptions: Assumptions): boolean;
+  // Derived updates, e.g. rescaling the STR calendar when its average changes
+  update?(assumptions: Assumptions, value: Assumptions[keyof Assumptions]): Assumptions;
+}
+
+export type DisplayFormat = 'currency' | 'percent' | 'count' | 'ratio';
+
+export interface DisplayMetric<P> {
+  label: string;
+  value(proforma: P): number;
+  format?: DisplayFormat;
+  good?(proforma: P): boolean;
+  bad?(proforma: P): boolean;
+  tooltip?: string | ((proforma: P) => string | undefined);
+}
+
+export interface DisplayLine<P> {
+  label: string | ((proforma: P, personal: PersonalInfo) => string);
+  value(proforma: P): number;
+  format?: DisplayFormat;
+  // 'expense' always shows in red parentheses, 'signed' only when negative
+  tone?: 'expense' | 'signed';
+  bold?: boolean;
+  final?: boolean;
+  show?(proforma: P): boolean;
+}
+
+export type DisplayWidget = { type: 'str-monthly-revenue'; income: StrIncome };
+
+export interface DisplayDrillDown<P> {
+  title: string;
+  widget?(proforma: P): DisplayWidget | null;
+  lines: DisplayLine<P>[];
+  show?(proforma: P): boolean;
+}
+
+export interface ScenarioDisplay<P> {
+  metrics: DisplayMetric<P>[];
+  statementTitle: string | ((proforma: P) => string);
+  statement: DisplayLine<P>[];
+  drillDowns: DisplayDrillDown<P>[];
+  projection: {
+    incomeLabel: string;
+    cashFlowLabel: string;
+    cumulativeLabel: string;
+    income(proforma: P): number;
+  };
+}
+
+export interface ScenarioDefinition<S extends Scenario = Scenario> {
+  id: S;
+  label: string;
+  // Icon name, resolved by ScenarioIcon
+  icon: string;
+  fields: AssumptionField[];
+  // Inputs outside its own fields that it depends on, e.g. the rental inputs shared
+  // with other scenarios. An input some scenario lists in `fields` or here only
+  // affects those scenarios; any other input affects them all
+  sharedInputs?: NumericKey<Assumptions>[];
+  calculate(context: ProformaContext): ScenarioProformas[S];
+  // Operating cash received (or saved) in a year, after tax
+  annualCashFlow(proforma: ScenarioProformas[S]): number;
+  // Hold-period cash flow for IRR and NPV when it also includes one-time
+  // proceeds (e.g. a refinance cash-out); defaults to annualCashFlow
+  projectionCashFlow?(proforma: ScenarioProformas[S]): number;
+  display: ScenarioDisplay<ScenarioProformas[S]>;
+  // Purchase and exit treatment
+  refinances?: boolean;
+  capitalImprovements?(assumptions: Assumptions): number;
+  startingValue?(assumptions: Assumptions): number;
+  primaryResidenceShare?(assumptions: Assumptions): number;
+  // How the passive-loss rules treat its rental income; no rental income when omitted
+  passiveActivity?: PassiveActivity;
+  // Offer the rent-vs-buy comparison (buying the home to live in vs. renting)
+  rentVsBuy?: boolean;
+}
+
+// --- Analysis ---
+
+// A numeric input that analyses can vary
+export type InputVariable =
+  | { source: 'assumptions'; key: keyof Assumptions; label: string }
+  | { source: 'personal'; key: keyof PersonalInfo; label: string };
+
+export interface AnalysisInputs {
+  assumptions: Assumptions;
+  personal: PersonalInfo;
+}
+
+// A proforma output that analyses can target
+export interface OutputMetric {
+  id: string;
+  label: string;
+  format: DisplayFormat;
+  value(proforma: Proforma): number;
+}
+
+export interface TornadoBar {
+  variable: InputVariable;
+  baseInput: number;
+  lowInput: number;
+  highInput: number;
+  lowOutput: number;
+  highOutput: number;
+  swing: number;
+}
+
+export interface SensitivityAnalysis {
+  metric: OutputMetric;
+  baseOutput: number;
+  bars: TornadoBar[];
+}
+
+export interface SensitivityTable {
+  rowVariable: InputVariable;
+  columnVariable: InputVariable;
+  rowInputs: number[];
+  columnInputs: number[];
+  // outputs[row][column]
+  outputs: number[][];
+}
+
+export type Distribution =
+  | { kind: 'uniform'; min: number; max: number }
+  | { kind: 'triangular'; min: number; mode: number; max: number }
+  | { kind: 'normal'; mean: number; stdDev: number };
+
+export interface InputDistribution {
+  variable: InputVariable;
+  distribution: Distribution;
+}
+
+export interface HistogramBin {
+  from: number;
+  to: number;
+  count: number;
+}
+
+// Distribution of one scenario's annual cash flow across the trials
+export interface MonteCarloResult {
+  scenario: Scenario;
+  mean: number;
+  p5: number;
+  p25: number;
+  p50: number;
+  p75: number;
+  p95: number;
+  probabilityNegative: number;
+  histogram: HistogramBin[];
+}
+
+export interface MonteCarloSimulation {
+  trials: number;
+  seed: number;
+  results: MonteCarloResult[];
+}
+
+export interface MonteCarloRunOptions {
+  // Called after each batch of trials
+  onProgress?(completed: number, trials: number): void;
+  // Stops the run between batches
+  signal?: AbortSignal;
+}
+
+export interface GoalSeekResult {
+  variable: InputVariable;
+  metric: OutputMetric;
+  target: number;
+  lowerBound: number;
+  upperBound: number;
+  // Input value that reaches the target, or null if none lies within the bounds
+  solution: number | null;
+  // Metric at the solution
+  achieved: number | null;
+  iterations: number;
+}
+
+export interface RefinanceTerms {
+  refinanceMonth: number;
+  refinanceYear: number;
+  payoffBalance: number;
+  refinanceLoanAmount: number;
+  refinanceClosingCosts: number;
+  cashOut: number;
+  refinanceAnnualMortgagePayment: number;
+  loanYear: AmortizationYear;
+  // The new loan's first twelve months, with no purchase-loan months mixed in
+  stabilizedLoanYear: AmortizationYear;
+}
+
+export interface LoanTerms {
+  principal: number;
+  annualRate: number;
+  termYears: number;
+  interestOnlyMonths?: number;
+  arm?: {
+    fixedMonths: number;
+    indexRate: number;
+    margin: number;
+    initialCap: number;
+    periodicCap: number;
+    lifetimeCap: number;
+  };
+  mortgageInsurance?: {
+    annualRate: number;
+    basis: 'original' | 'balance';
+    propertyValue: number;
+    cancelAtLtv?: number;
+    maxMonths?: number;
+  };
+}
+
+export interface PurchaseLoan {
+  baseLoanAmount: number;
+  originalLtv: number;
+  upfrontMortgageInsurance: number;
+  pointsCost: number;
+  noteRate: number;
+  terms: LoanTerms;
+}
+
+export interface AmortizationRow {
+  month: number;
+  rate: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  mortgageInsurance: number;
+  balance: number;
+}
+
+export interface AmortizationYear {
+  year: number;
+  payment: number;
+  interest: number;
+  principal: number;
+  mortgageInsurance: number;
+  endingBalance: number;
+}
+
+export interface SaleAnalysis {
+  saleYear: number;
+  salePrice: number;
+  sellingCommission: number;
+  transferTax: number;
+  sellingCosts: number;
+  loanBalance: number;
+  netSaleProceeds: number;
+  adjustedBasis: number;
+  accumulatedDepreciation: number;
+  totalGain: number;
+  depreciationRecapture: number;
+  // Cost-segregated property and furnishings, recaptured at ordinary rates
+  section1245Recapture: number;
+  section1245RecaptureTax: number;
+  // The building, recaptured at up to 25%
+  section1250Recapture: number;
+  section1250RecaptureTax: number;
+  recaptureTax: number;
+  exclusion: number;
+  capitalGain: number;
+  capitalGainsTax: number;
+  totalTaxOnSale: number;
+  releasedSuspendedLosses: number;
+  suspendedLossTaxBenefit: number;
+  afterTaxSaleProceeds: number;
+}
+
+export interface ProjectionYear {
+  year: number;
+  proforma: Proforma;
+  cashFlow: number;
+  cumulativeCashFlow: number;
+  propertyValue: number;
+  loanBalance: number;
+  equity: number;
+  capexReplacements: CapexReplacement[];
+  capexSpend: number;
+  capexReserveBalance: number;
+  // Prices at the end of the year relative to the purchase (1 = purchase-year dollars)
+  priceLevel: number;
+  realCumulativeCashFlow: number;
+}
+
+// Total-return metrics in purchase-year dollars
+export interface RealReturns {
+  cumulativeCashFlow: number;
+  afterTaxSaleProceeds: number;
+  irr: number;
+  npv: number;
+  equityMultiple: number;
+}
+
+// Net worth at the end of a year on each path; home equity is after selling
+// costs, loan payoff and tax on the sale
+export interface RentVsBuyYear {
+  year: number;
+  rent: number;
+  ownerCost: number;
+  renterNetWorth: number;
+  homeEquity: number;
+  ownerInvestments: number;
+  ownerNetWorth: number;
+}
+
+export interface RentVsBuy {
+  years: RentVsBuyYear[];
+  initialInvestment: number;
+  // First year owning is ahead, or null if renting stays ahead
+  breakevenYear: number | null;
+}
+
+export interface Projection {
+  scenario: Scenario;
+  holdPeriodYears: number;
+  years: ProjectionYear[];
+  initialInvestment: number;
+  sale: SaleAnalysis;
+  cumulativeCashFlow: number;
+  irr: number;
+  npv: number;
+  equityMultiple: number;
+  inflationRate: number;
+  real: RealReturns;
+}
+
+// --- Deals ---
+
+// A property to analyze; anything not given comes from the simulator and the default personal info
+export interface Deal {
+  property: Property;
+  assumptions?: Partial<Assumptions>;
+  personal?: Partial<PersonalInfo>;
+}
+
+export interface DealMetric {
+  id: string;
+  label: string;
+  format: DisplayFormat;
+  value: number;
+}
+
+export interface DealScenarioResult {
+  scenario: Scenario;
+  label: string;
+  // Key Year 1 metrics, then the hold-period returns
+  metrics: DealMetric[];
+  proforma: Proforma;
+}
+
+export interface DealAnalysis {
+  property: Property;
+  assumptions: Assumptions;
+  personal: PersonalInfo;
+  validation: ValidationResult;
+  // Empty when validation found errors
+  results: DealScenarioResult[];
+}
+
+// --- Batch ---
+
+// One listing from a batch CSV: its 1-based row (the header is row 1) and the
+// deal it describes, or the problems that kept the row from being read
+export interface BatchRow {
+  row: number;
+  address: string;
+  deal: Deal | null;
+  errors: string[];
+}
+
+export interface BatchImport {
+  rows: BatchRow[];
+  // Headers that aren't a property column, an alias or a numeric input key
+  ignoredColumns: string[];
+}
+
+export interface BatchResult {
+  row: number;
+  address: string;
+  // Null when the row couldn't be read; results are empty when validation found errors
+  analysis: DealAnalysis | null;
+  errors: string[];
+}
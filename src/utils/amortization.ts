@@ -0,0 +1,143 @@
+import type { AmortizationRow, AmortizationYear, LoanTerms } from '../types';
+import { calculateMonthlyPI } from './calculations';
+
+/**
+ * Interest rate in effect for a given month of an adjustable-rate loan.
+ * The rate moves toward index + margin, limited by the initial cap at the
+ * first reset, the periodic cap at each annual reset after that, and the
+ * lifetime cap over the start rate.
+ */
+const getAdjustedRate = (loan: LoanTerms, month: number, previousRate: number): number => {
+  const { arm } = loan;
+  if (!arm || month <= arm.fixedMonths) return loan.annualRate;
+
+  const monthsSinceFirstReset = month - arm.fixedMonths - 1;
+  if (monthsSinceFirstReset % 12 !== 0) return previousRate;
+
+  const cap = monthsSinceFirstReset === 0 ? arm.initialCap : arm.periodicCap;
+  const fullyIndexedRate = arm.indexRate + arm.margin;
+  const step = Math.max(-cap, Math.min(cap, fullyIndexedRate - previousRate));
+
+  const ceiling = loan.annualRate + arm.lifetimeCap;
+  const floor = Math.max(arm.margin, loan.annualRate - arm.lifetimeCap);
+  return Math.max(floor, Math.min(ceiling, previousRate + step));
+};
+
+/**
+ * Monthly mortgage insurance (PMI or FHA MIP) for a month, given the
+ * balance at the start of that month.
+ */
+const getMortgageInsurance = (loan: LoanTerms, month: number, openingBalance: number): number => {
+  const { mortgageInsurance } = loan;
+  if (!mortgageInsurance || openingBalance <= 0) return 0;
+
+  const { annualRate, basis, propertyValue, cancelAtLtv, maxMonths } = mortgageInsurance;
+  if (maxMonths !== undefined && month > maxMonths) return 0;
+  if (cancelAtLtv !== undefined && openingBalance <= propertyValue * cancelAtLtv) return 0;
+
+  const insuredAmount = basis === 'original' ? loan.principal : openingBalance;
+  return insuredAmount * annualRate / 12;
+};
+
+/**
+ * Builds a month-by-month amortization schedule for a loan.
+ * Handles interest-only periods, adjustable-rate resets (the payment is
+ * recast over the remaining term whenever the rate changes or the
+ * interest-only period ends) and mortgage insurance.
+ *
+ * Months are 1-based; `startMonth` and `endMonth` select an inclusive range
+ * (defaults to the full term).
+ */
+export const buildLoanSchedule = (
+  loan: LoanTerms,
+  startMonth: number = 1,
+  endMonth: number = loan.termYears * 12
+): AmortizationRow[] => {
+  const numberOfPayments = Math.round(loan.termYears * 12);
+  const lastMonth = Math.min(endMonth, numberOfPayments);
+  if (loan.principal <= 0 || numberOfPayments <= 0 || lastMonth < startMonth) return [];
+
+  const interestOnlyMonths = Math.min(loan.interestOnlyMonths ?? 0, numberOfPayments - 1);
+
+  const schedule: AmortizationRow[] = [];
+  let balance = loan.principal;
+  let rate = loan.annualRate;
+  let monthlyPayment = 0;
+
+  for (let month = 1; month <= lastMonth; month++) {
+    const previousRate = rate;
+    rate = getAdjustedRate(loan, month, previousRate);
+
+    // Recast the payment at the first amortizing month and at every rate change
+    if (month === interestOnlyMonths + 1 || (month > interestOnlyMonths && rate !== previousRate)) {
+      const remainingYears = (numberOfPayments - month + 1) / 12;
+      monthlyPayment = calculateMonthlyPI(balance, rate, remainingYears);
+    }
+
+    const mortgageInsurance = getMortgageInsurance(loan, month, balance);
+    const interest = balance * rate / 12;
+    let principalPaid = 0;
+    if (month > interestOnlyMonths) {
+      // Final payment clears any rounding remainder
+      principalPaid = month === numberOfPayments ? balance : Math.min(monthlyPayment - interest, balance);
+    }
+    balance = Math.max(0, balance - principalPaid);
+
+    if (month >= startMonth) {
+      schedule.push({
+        month,
+        rate,
+        payment: interest + principalPaid,
+        interest,
+        principal: principalPaid,
+        mortgageInsurance,
+        balance,
+      });
+    }
+  }
+
+  return schedule;
+};
+
+/**
+ * Builds a month-by-month amortization schedule for a fixed-rate loan.
+ */
+export const buildAmortizationSchedule = (
+  principal: number,
+  annualRate: number,
+  loanTermYears: number,
+  startMonth: number = 1,
+  endMonth: number = loanTermYears * 12
+): AmortizationRow[] => {
+  return buildLoanSchedule({ principal, annualRate, termYears: loanTermYears }, startMonth, endMonth);
+};
+
+/**
+ * Rolls a monthly schedule up into loan-year subtotals.
+ */
+export const summarizeScheduleByYear = (schedule: AmortizationRow[]): AmortizationYear[] => {
+  const years = new Map<number, AmortizationYear>();
+
+  for (const row of schedule) {
+    const year = Math.ceil(row.month / 12);
+    const summary = years.get(year) ?? { year, payment: 0, interest: 0, principal: 0, mortgageInsurance: 0, endingBalance: 0 };
+    summary.payment += row.payment;
+    summary.interest += row.interest;
+    summary.principal += row.principal;
+    summary.mortgageInsurance += row.mortgageInsurance;
+    summary.endingBalance = row.balance;
+    years.set(year, summary);
+  }
+
+  return Array.from(years.values());
+};
+
+/**
+ * Payment, interest, principal and mortgage insurance totals for a single
+ * loan year. Years after the loan is paid off return zeros.
+ */
+export const getAmortizationYear = (loan: LoanTerms, year: number): AmortizationYear => {
+  const schedule = buildLoanSchedule(loan, (year - 1) * 12 + 1, year * 12);
+  return summarizeScheduleByYear(schedule)[0]
+    ?? { year, payment: 0, interest: 0, principal: 0, mortgageInsurance: 0, endingBalance: 0 };
+};
@@ -0,0 +1,194 @@
+import type {
+  Assumptions,
+  BatchImport,
+  BatchResult,
+  BatchRow,
+  DealMetric,
+  FieldMeta,
+  NumericKey,
+  PersonalInfo,
+  Property,
+  Scenario,
+} from '../types';
+import { parseCsv, toCsv } from './csv';
+import { analyzeDeal } from './deal';
+import { ASSUMPTION_FIELDS, PERSONAL_FIELDS, fromDisplayValue } from './fieldSchema';
+
+type BatchColumn =
+  | { target: 'property'; key: keyof Property }
+  | { target: 'assumptions'; key: NumericKey<Assumptions>; field: FieldMeta }
+  | { target: 'personal'; key: NumericKey<PersonalInfo>; field: FieldMeta };
+
+const PROPERTY_COLUMNS: (keyof Property)[] = ['address', 'beds', 'baths', 'year'];
+
+// Short names listing exports tend to use
+const ASSUMPTION_ALIASES: Record<string, NumericKey<Assumptions>> = {
+  price: 'purchasePrice',
+  rent: 'monthlyRent',
+};
+
+/**
+ * Metrics the batch grid and table show for each scenario.
+ */
+export const BATCH_KEY_METRICS = ['annual-cash-flow', 'irr'];
+
+// Case, spaces and punctuation don't matter: "Purchase Price" and purchase_price both name purchasePrice
+const normalizeHeader = (header: string): string => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+const findColumn = (header: string): BatchColumn | null => {
+  const name = normalizeHeader(header);
+  const property = PROPERTY_COLUMNS.find((key) => key === name);
+  if (property) return { target: 'property', key: property };
+
+  const assumptionKey =
+    ASSUMPTION_ALIASES[name] ??
+    (Object.keys(ASSUMPTION_FIELDS) as NumericKey<Assumptions>[]).find((key) => normalizeHeader(key) === name);
+  if (assumptionKey) return { target: 'assumptions', key: assumptionKey, field: ASSUMPTION_FIELDS[assumptionKey] };
+
+  const personalKey = (Object.keys(PERSONAL_FIELDS) as NumericKey<PersonalInfo>[]).find(
+    (key) => normalizeHeader(key) === name
+  );
+  if (personalKey) return { target: 'personal', key: personalKey, field: PERSONAL_FIELDS[personalKey] };
+  return null;
+};
+
+// Currency symbols, thousands separators and percent signs are allowed; blank is null
+const parseNumber = (cell: string): number | null => {
+  const text = cell.replace(/[$,%\s]/g, '');
+  if (text === '') return null;
+  const value = Number(text);
+  return Number.isFinite(value) ? value : NaN;
+};
+
+/**
+ * Reads a batch CSV into one deal per listing. The header row needs address,
+ * beds, baths and year; any other column named by an input key (or `price`
+ * and `rent`) overrides that input, with percents entered as whole numbers.
+ * Blank override cells keep the simulated estimate.
+ */
+export const parseBatchCsv = (text: string): BatchImport => {
+  // Spreadsheet apps often save UTF-8 CSVs with a byte-order mark
+  const [headers, ...records] = parseCsv(text.replace(/^\uFEFF/, ''));
+  if (!headers || headers.every((header) => header.trim() === '')) throw new Error('the CSV is empty');
+
+  const columns = headers.map(findColumn);
+  const missing = PROPERTY_COLUMNS.filter(
+    (key) => !columns.some((column) => column?.target === 'property' && column.key === key)
+  );
+  if (missing.length > 0) throw new Error(`the CSV needs ${missing.join(', ')} columns`);
+
+  const rows = records
+    .map((cells, i): BatchRow | null => {
+      if (cells.every((cell) => cell.trim() === '')) return null;
+
+      const errors: string[] = [];
+      const property: Partial<Record<keyof Property, string | number>> = {};
+      const assumptions: Partial<Record<NumericKey<Assumptions>, number>> = {};
+      const personal: Partial<PersonalInfo> = {};
+      columns.forEach((column, c) => {
+        const cell = (cells[c] ?? '').trim();
+        if (!column) return;
+        if (column.target === 'property' && column.key === 'address') {
+          if (cell === '') errors.push(`${headers[c]} is missing`);
+          property.address = cell;
+          return;
+        }
+
+        const value = parseNumber(cell);
+        if (value === null) {
+          if (column.target === 'property') errors.push(`${headers[c]} is missing`);
+          return;
+        }
+        if (Number.isNaN(value)) {
+          errors.push(`${headers[c]} "${cell}" isn't a number`);
+        } else if (column.target === 'property') {
+          property[column.key] = value;
+        } else if (column.target === 'assumptions') {
+          assumptions[column.key] = fromDisplayValue(column.field, value);
+        } else {
+          personal[column.key] = fromDisplayValue(column.field, value);
+        }
+      });
+
+      return {
+        row: i + 2,
+        address: String(property.address ?? ''),
+        deal: errors.length > 0 ? null : { property: property as Property, assumptions: assumptions as Partial<Assumptions>, personal },
+        errors,
+      };
+    })
+    .filter((row): row is BatchRow => row !== null);
+
+  const ignoredColumns = headers.filter((header, c) => !columns[c] && header.trim() !== '');
+  return { rows, ignoredColumns };
+};
+
+/**
+ * Runs the scenarios on every readable row. Rows that couldn't be read, or
+ * that fail validation, carry their errors and no results.
+ */
+export const analyzeBatch = (rows: BatchRow[], scenarios: Scenario[]): BatchResult[] => {
+  return rows.map(({ row, address, deal, errors }) => {
+    if (!deal) return { row, address, analysis: null, errors };
+    const analysis = analyzeDeal(deal, scenarios);
+    return { row, address, analysis, errors: analysis.validation.errors.map((issue) => issue.message) };
+  });
+};
+
+/**
+ * A metric from one scenario of a batch result, if that scenario ran.
+ */
+export const getBatchMetric = (result: BatchResult, scenario: Scenario, id: string): DealMetric | undefined => {
+  return result.analysis?.results.find((candidate) => candidate.scenario === scenario)?.metrics.find((metric) => metric.id === id);
+};
+
+// Spreadsheet-friendly numbers: percents as whole numbers, like the import
+const exportValue = (metric: DealMetric): string | number => {
+  if (!Number.isFinite(metric.value)) return metric.value > 0 ? 'Infinite' : '';
+  if (metric.format === 'percent') return Number((metric.value * 100).toFixed(2));
+  if (metric.format === 'currency') return Math.round(metric.value);
+  return Number(metric.value.toFixed(2));
+};
+
+/**
+ * Batch results as CSV: the property and its price and rent, any errors, then
+ * every metric of each scenario. The property columns read back in as a batch.
+ */
+export const batchToCsv = (results: BatchResult[], scenarios: Scenario[]): string => {
+  const metricColumns = scenarios.flatMap((scenario) =>
+    results
+      .flatMap((result) => result.analysis?.results.find((candidate) => candidate.scenario === scenario) ?? [])
+      .flatMap((scenarioResult) => scenarioResult.metrics.map((metric) => ({ scenario, scenarioLabel: scenarioResult.label, metric })))
+      .filter((column, i, all) => all.findIndex((candidate) => candidate.metric.id === column.metric.id) === i)
+  );
+
+  const header = [
+    'Address',
+    'Beds',
+    'Baths',
+    'Year',
+    'Purchase Price',
+    'Monthly Rent',
+    'Errors',
+    ...metricColumns.map(
+      ({ scenarioLabel, metric }) => `${scenarioLabel}: ${metric.label}${metric.format === 'percent' ? ' (%)' : ''}`
+    ),
+  ];
+  const rows = results.map((result) => {
+    const { analysis } = result;
+    return [
+      result.address,
+      analysis?.property.beds ?? '',
+      analysis?.property.baths ?? '',
+      analysis?.property.year ?? '',
+      analysis ? Math.round(analysis.assumptions.purchasePrice) : '',
+      analysis ? Math.round(analysis.assumptions.monthlyRent) : '',
+      result.errors.join('; '),
+      ...metricColumns.map(({ scenario, metric }) => {
+        const value = getBatchMetric(result, scenario, metric.id);
+        return value ? exportValue(value) : '';
+      }),
+    ];
+  });
+  return toCsv([header, ...rows]);
+};
@@ -1,10 +1,17 @@
-import type { Assumptions, PersonalInfo, Scenario, Proforma, RentalProforma, OwnerProforma, BaseProforma } from '../types';
+import type { Assumptions, PersonalInfo, Scenario, Proforma, ProformaContext, ProformaOptions, BaseProforma } from '../types';
+import { getAmortizationYear } from './amortization';
+import { calculateRefinance } from './refinance';
+import { resolvePurchaseLoan } from './loans';
+import { getDepreciationYear, getStartupCapital } from './depreciation';
+import { getCapexReserve } from './capex';
+import { getScenario } from '../scenarios';
 
 /**
  * Formats a number as USD currency.
  */
 export const formatCurrency = (amount: number): string => {
-  if (isNaN(amount)) amount = 0;
+  // Anything that rounds to zero (including -0) displays as $0, not -$0
+  if (isNaN(amount) || Math.abs(amount) < 0.5) amount = 0;
   return new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: 'USD',
@@ -26,10 +33,11 @@ export const formatPercent = (value: number): string => {
 };
 
 /**
- * Calculates the monthly principal and interest payment for a loan.
+ * Calculates the monthly principal and interest payment for a loan. A 0% loan
+ * repays the principal in equal installments.
  */
 export const calculateMonthlyPI = (principal: number, annualRate: number, loanTermYears: number): number => {
-  if (principal <= 0 || annualRate <= 0 || loanTermYears <= 0) return 0;
+  if (principal <= 0 || loanTermYears <= 0) return 0;
   const monthlyRate = annualRate / 12;
   const numberOfPayments = loanTermYears * 12;
 
@@ -43,198 +51,131 @@ export const calculateMonthlyPI = (principal: number, annualRate: number, loanTe
 };
 
 /**
- * Calculates the full proforma based on assumptions and scenario.
- * This is the core logic engine.
+ * Return forgone in `year` on the cash put into the deal. Simple: the same
+ * return on the original cash every year; compounding: the return on what the
+ * cash would have grown to by the start of the year.
+ */
+export const calculateOpportunityCost = (cashInvested: number, personal: PersonalInfo, year: number): number => {
+  const { opportunityCostRate, opportunityCostMethod } = personal;
+  const growth = opportunityCostMethod === 'compounding' ? Math.pow(1 + opportunityCostRate, year - 1) : 1;
+  return cashInvested * opportunityCostRate * growth;
+};
+
+/**
+ * Builds the inputs shared by every scenario for one year of the hold period:
+ * purchase & loan, growth factors, core operating expenses, the capex reserve
+ * and depreciation.
+ *
+ * `options.year` selects which year of the hold period to calculate (default 1);
+ * `options.priorSuspendedLosses` carries passive losses in from earlier years
+ * (defaults to the carry-forward in `personal`).
+ * Income grows at `rentGrowthRate` and operating expenses at `expenseGrowthRate`
+ * from the Year 1 figures in `assumptions`.
  */
-export const calculateProforma = (assumptions: Assumptions, personal: PersonalInfo, scenario: Scenario): Proforma => {
+export const buildProformaContext = (
+  assumptions: Assumptions,
+  personal: PersonalInfo,
+  scenario: Scenario,
+  options: ProformaOptions = {}
+): ProformaContext => {
+  const { year = 1, priorSuspendedLosses = personal.suspendedLossCarryforward } = options;
+  const definition = getScenario(scenario);
+
   const {
     purchasePrice,
     downPaymentPercent,
-    interestRate,
-    loanTerm,
     closingCostsPercent,
     landValuePercent,
-    monthlyRent,
-    avgNightlyRate,
-    occupancyRate,
     propertyTaxPercent,
     homeInsurancePercent,
     monthlyHOA,
-    maintenancePercent,
-    vacancyPercent,
     utilitiesMonthly,
-    mgmtFeePercent,
-    airbnbFeePercent,
-    equivalentRent,
+    rentGrowthRate,
+    expenseGrowthRate,
   } = assumptions;
 
-  const { federalTaxRate, stateTaxRate, opportunityCostRate } = personal;
-
   // --- Core Purchase & Loan Calculations ---
   const downPaymentAmount = purchasePrice * downPaymentPercent;
-  const loanAmount = purchasePrice - downPaymentAmount;
-  const totalCashNeeded = downPaymentAmount + (purchasePrice * closingCostsPercent);
-  const monthlyPI = calculateMonthlyPI(loanAmount, interestRate, loanTerm);
-  const annualMortgagePayment = monthlyPI * 12;
-
-  // Year 1 Interest (Approximation)
-  const year1Interest = loanAmount * interestRate;
-  const year1Principal = annualMortgagePayment - year1Interest;
+  const purchaseLoan = resolvePurchaseLoan(assumptions);
+  const { pointsCost } = purchaseLoan;
+  const capitalImprovements = definition.capitalImprovements?.(assumptions) ?? 0;
+  const startupCapital = getStartupCapital(assumptions, scenario);
+  const totalCashNeeded = downPaymentAmount + (purchasePrice * closingCostsPercent) + pointsCost + capitalImprovements + startupCapital.total;
+
+  // Refinancing scenarios replace the purchase loan with a cash-out refinance
+  const refinance = definition.refinances ? calculateRefinance(assumptions, year) : null;
+
+  // Interest, principal & mortgage insurance for the selected year, from the amortization schedule
+  const loanYear = refinance
+    ? refinance.loanYear
+    : getAmortizationYear(purchaseLoan.terms, year);
+
+  // --- Growth Factors ---
+  const incomeGrowth = Math.pow(1 + rentGrowthRate, year - 1);
+  const expenseGrowth = Math.pow(1 + expenseGrowthRate, year - 1);
+
+  // Depreciation Basis: the building, and furnishings & equipment on their own MACRS schedule
+  const depreciationBasis = {
+    building: purchasePrice * (1 - landValuePercent) + capitalImprovements,
+    furnishings: startupCapital.depreciable,
+  };
+  const depreciation = getDepreciationYear(assumptions, depreciationBasis, year);
+  // What the year's depreciation would be without cost segregation, for comparison
+  const baselineDepreciation = assumptions.costSegregationEnabled
+    ? getDepreciationYear({ ...assumptions, costSegregationEnabled: false }, depreciationBasis, year)
+    : depreciation;
 
   // --- Core Operating Expenses (OpEx) ---
-  const annualPropertyTax = purchasePrice * propertyTaxPercent;
-  const annualHomeInsurance = purchasePrice * homeInsurancePercent;
-  const annualHOA = monthlyHOA * 12;
-  const annualUtilities = utilitiesMonthly * 12;
-
-  // Depreciation Basis
-  const depreciationBasis = purchasePrice * (1 - landValuePercent);
-  const annualDepreciation = depreciationBasis / 27.5; // Standard residential
-
-  const combinedTaxRate = federalTaxRate + stateTaxRate;
-
-  const opportunityCost = totalCashNeeded * opportunityCostRate;
-
-  let proforma: BaseProforma = {
+  const base: BaseProforma = {
     scenario,
+    year,
     totalCashNeeded,
-    annualPropertyTax,
-    annualHomeInsurance,
-    annualHOA,
-    annualUtilities,
-    opportunityCost,
-    year1Principal,
+    startupCapital: startupCapital.total,
+    annualPropertyTax: purchasePrice * propertyTaxPercent * expenseGrowth,
+    annualHomeInsurance: purchasePrice * homeInsurancePercent * expenseGrowth,
+    annualHOA: monthlyHOA * 12 * expenseGrowth,
+    annualUtilities: utilitiesMonthly * 12 * expenseGrowth,
+    capexReserve: getCapexReserve(assumptions, year),
+    opportunityCost: calculateOpportunityCost(totalCashNeeded, personal, year),
+    annualPrincipal: loanYear.principal,
+    annualMortgageInsurance: loanYear.mortgageInsurance,
+    pointsCost,
+    endingLoanBalance: loanYear.endingBalance,
+  };
+
+  return {
+    assumptions,
+    personal,
+    scenario,
+    year,
+    priorSuspendedLosses,
+    base,
+    refinance,
+    loanYear,
+    incomeGrowth,
+    expenseGrowth,
+    capitalImprovements,
+    startupCapital,
+    buildingDepreciation: depreciation.building,
+    costSegregationDepreciation: depreciation.fiveYear + depreciation.sevenYear + depreciation.fifteenYear,
+    furnishingsDepreciation: depreciation.furnishings,
+    annualDepreciation: depreciation.total,
+    depreciation,
+    baselineDepreciation,
   };
+};
 
-  // --- Scenario-Specific Logic ---
-
-  if (scenario === 'rental' || scenario === 'airbnb') {
-    // --- Income ---
-    const grossPotentialIncome = scenario === 'rental'
-      ? monthlyRent * 12
-      : avgNightlyRate * 365 * occupancyRate;
-
-    const vacancyLoss = scenario === 'rental'
-      ? grossPotentialIncome * vacancyPercent
-      : 0; // Vacancy is built into occupancy for Airbnb
-
-    const effectiveGrossIncome = grossPotentialIncome - vacancyLoss;
-
-    // --- Scenario-Specific OpEx ---
-    const maintenance = effectiveGrossIncome * maintenancePercent;
-    const managementFee = effectiveGrossIncome * mgmtFeePercent;
-    const platformFee = scenario === 'airbnb' ? effectiveGrossIncome * airbnbFeePercent : 0;
-
-    const totalOpEx =
-      annualPropertyTax +
-      annualHomeInsurance +
-      annualHOA +
-      annualUtilities +
-      maintenance +
-      managementFee +
-      platformFee;
-
-    // Total Expenses (User's definition: all cash out + opportunity cost)
-    const totalExpenses = totalOpEx + annualMortgagePayment + opportunityCost;
-
-    // --- Investment Calculations ---
-    const netOperatingIncome = effectiveGrossIncome - totalOpEx;
-    const cashFlowBeforeTax = netOperatingIncome - annualMortgagePayment;
-
-    // --- Tax Calculations ---
-    const deductibleExpenses =
-      totalOpEx +
-      year1Interest +
-      annualDepreciation;
-
-    const netTaxableIncome = effectiveGrossIncome - deductibleExpenses;
-    const taxSavings = netTaxableIncome < 0
-      ? Math.abs(netTaxableIncome) * combinedTaxRate
-      : 0;
-    const taxesOwed = netTaxableIncome > 0
-      ? netTaxableIncome * combinedTaxRate
-      : 0;
-
-    const taxBenefit = taxSavings - taxesOwed;
-    const cashFlowAfterTax = cashFlowBeforeTax + taxBenefit;
-
-    // --- Key Metrics ---
-    const capRate = netOperatingIncome / purchasePrice;
-    const cashOnCashReturn = cashFlowAfterTax / totalCashNeeded;
-    const cashFlowPerMonth = cashFlowAfterTax / 12;
-
-    return {
-      ...proforma,
-      scenario,
-      // Income
-      grossPotentialIncome,
-      vacancyLoss,
-      effectiveGrossIncome,
-      // Expenses
-      totalOpEx,
-      maintenance,
-      managementFee,
-      platformFee,
-      annualMortgagePayment,
-      totalExpenses,
-      // Profit
-      cashFlowBeforeTax,
-      // Taxes
-      year1Interest,
-      annualDepreciation,
-      netTaxableIncome,
-      taxBenefit,
-      // Final
-      cashFlowAfterTax,
-      // Metrics
-      capRate,
-      cashOnCashReturn,
-      cashFlowPerMonth,
-    } as RentalProforma;
-  } else if (scenario === 'owner') {
-    // --- Owner-Occupied Logic ---
-    // "Income" is the rent saved
-    const grossAvoidedRent = equivalentRent * 12;
-
-    // Total Housing Cost (PITI + HOA + Utils)
-    const annualPITI = annualMortgagePayment + annualPropertyTax + annualHomeInsurance;
-    const totalAnnualCost = annualPITI + annualHOA + annualUtilities;
-
-    // Total "Expense" including opportunity cost
-    const totalExpenses = totalAnnualCost + opportunityCost;
-
-    // Tax Savings (Simplified Itemized Deduction)
-    const deductiblePropTax = Math.min(annualPropertyTax, 10000); // Capped
-    const deductibleInterest = year1Interest;
-
-    const totalDeductions = deductiblePropTax + deductibleInterest;
-    const taxSavings = totalDeductions * combinedTaxRate;
-
-    const netAnnualCost = totalAnnualCost - taxSavings;
-    const netBenefit = grossAvoidedRent - netAnnualCost;
-
-    // Monthly costs
-    const monthlyTotalCost = totalAnnualCost / 12;
-    const netMonthlyCost = netAnnualCost / 12;
-
-    return {
-      ...proforma,
-      scenario,
-      grossAvoidedRent,
-      totalAnnualCost,
-      totalExpenses,
-      annualPITI,
-      year1Interest,
-      deductiblePropTax,
-      totalDeductions,
-      taxBenefit: taxSavings,
-      netAnnualCost,
-      netBenefit,
-      monthlyTotalCost,
-      netMonthlyCost,
-    } as OwnerProforma;
-  }
-
-  // Fallback (should never reach here)
-  return proforma as Proforma;
+/**
+ * Calculates the full proforma based on assumptions and scenario.
+ * This is the core logic engine: the shared context is handed to the
+ * scenario's registered `calculate` function.
+ */
+export const calculateProforma = (
+  assumptions: Assumptions,
+  personal: PersonalInfo,
+  scenario: Scenario,
+  options: ProformaOptions = {}
+): Proforma => {
+  const context = buildProformaContext(assumptions, personal, scenario, options);
+  return getScenario(scenario).calculate(context);
 };
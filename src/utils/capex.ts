@@ -0,0 +1,65 @@
+import type { Assumptions, CapexComponent, CapexReplacement } from '../types';
+
+/**
+ * Estimated age of a component in a home built `propertyAge` years ago,
+ * assuming it has been replaced on schedule since the home was built.
+ */
+export const estimateComponentAge = (usefulLife: number, propertyAge: number): number => {
+  if (usefulLife <= 0) return 0;
+  return Math.max(0, propertyAge) % usefulLife;
+};
+
+/**
+ * First year of the hold period in which a component is replaced.
+ * Components at or past the end of their life are replaced in Year 1.
+ */
+const getFirstReplacementYear = ({ usefulLife, age }: CapexComponent): number => {
+  return Math.max(1, Math.ceil(usefulLife - age));
+};
+
+/**
+ * A component's reserve for a year of the hold period. Until its first
+ * replacement the reserve funds the cost left over its remaining life
+ * (`usefulLife - age`), so a component near the end of its life reserves
+ * more; after that it is the replacement cost spread over its useful life.
+ */
+const getComponentReserve = (component: CapexComponent, year: number, expenseGrowthRate: number): number => {
+  const growth = (y: number) => Math.pow(1 + expenseGrowthRate, y - 1);
+  const firstYear = getFirstReplacementYear(component);
+  if (year > firstYear) return (component.replacementCost / component.usefulLife) * growth(year);
+
+  // Reserves growing with expenses that add up to the cost in the replacement year
+  let fundedGrowth = 0;
+  for (let y = 1; y <= firstYear; y++) fundedGrowth += growth(y);
+  return (component.replacementCost * growth(firstYear) * growth(year)) / fundedGrowth;
+};
+
+/**
+ * Annual capex reserve for a year of the hold period, summed over the
+ * components and grown at `expenseGrowthRate`.
+ */
+export const getCapexReserve = (assumptions: Assumptions, year: number): number => {
+  return assumptions.capexComponents
+    .filter((component) => component.usefulLife > 0)
+    .reduce((sum, component) => sum + getComponentReserve(component, year, assumptions.expenseGrowthRate), 0);
+};
+
+/**
+ * Components replaced in a year of the hold period, at that year's cost.
+ * After the first replacement a component is replaced every `usefulLife` years.
+ */
+export const getCapexReplacements = (assumptions: Assumptions, year: number): CapexReplacement[] => {
+  const expenseGrowth = Math.pow(1 + assumptions.expenseGrowthRate, year - 1);
+  return assumptions.capexComponents
+    .filter((component) => {
+      if (component.usefulLife <= 0) return false;
+      const firstYear = getFirstReplacementYear(component);
+      const cycle = Math.max(1, Math.round(component.usefulLife));
+      return year >= firstYear && (year - firstYear) % cycle === 0;
+    })
+    .map((component) => ({
+      year,
+      label: component.label,
+      cost: component.replacementCost * expenseGrowth,
+    }));
+};
@@ -0,0 +1,55 @@
+/**
+ * Splits CSV text into rows of cells. Handles quoted cells (with embedded
+ * commas, newlines and doubled quotes) and CRLF line endings; blank lines
+ * come back as a single empty cell.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  // A trailing newline doesn't start another row
+  if (cell !== '' || row.length > 0) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows;
+};
+
+const escapeCell = (cell: string): string => {
+  return /[",\r\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+};
+
+/**
+ * Joins rows of cells into CSV text, quoting cells that need it.
+ */
+export const toCsv = (rows: (string | number)[][]): string => {
+  return rows.map((row) => row.map((cell) => escapeCell(String(cell))).join(',')).join('\n') + '\n';
+};
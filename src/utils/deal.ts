@@ -0,0 +1,52 @@
+import type { AnalysisInputs, Assumptions, Deal, DealAnalysis, DealMetric, DealScenarioResult, Scenario } from '../types';
+import { calculateProforma } from './calculations';
+import { defaultPersonal, simulatePropertyData } from './defaults';
+import { getOutputMetrics } from './metrics';
+import { calculateProjection } from './projections';
+import { validateInputs } from './validation';
+import { getScenario, getScenarios } from '../scenarios';
+
+/**
+ * Assumptions and personal info for a deal: the simulator's estimates for the
+ * property, overridden by any values the deal gives. Scenario fields apply
+ * their derived updates (e.g. a nightly rate rescales the STR calendar).
+ */
+export const resolveDealInputs = (deal: Deal): AnalysisInputs => {
+  const fields = getScenarios().flatMap((definition) => definition.fields);
+  const overrides = deal.assumptions ?? {};
+  const assumptions = (Object.keys(overrides) as (keyof Assumptions)[]).reduce((current, key) => {
+    const value = overrides[key];
+    if (value === undefined) return current;
+    const field = fields.find((candidate) => candidate.key === key);
+    return field?.update ? field.update(current, value) : { ...current, [key]: value };
+  }, simulatePropertyData(deal.property));
+
+  return { assumptions, personal: { ...defaultPersonal, ...deal.personal } };
+};
+
+const analyzeScenario = ({ assumptions, personal }: AnalysisInputs, scenario: Scenario): DealScenarioResult => {
+  const proforma = calculateProforma(assumptions, personal, scenario);
+  const projection = calculateProjection(assumptions, personal, scenario);
+  const metrics: DealMetric[] = [
+    ...getOutputMetrics(scenario).map(({ id, label, format, value }) => ({ id, label, format, value: value(proforma) })),
+    { id: 'irr', label: 'IRR', format: 'percent', value: projection.irr },
+    { id: 'npv', label: 'NPV', format: 'currency', value: projection.npv },
+    { id: 'equity-multiple', label: 'Equity Multiple', format: 'ratio', value: projection.equityMultiple },
+  ];
+  return { scenario, label: getScenario(scenario).label, metrics, proforma };
+};
+
+/**
+ * Validates a deal and runs each scenario on it. Nothing is calculated when
+ * validation finds errors.
+ */
+export const analyzeDeal = (deal: Deal, scenarios: Scenario[]): DealAnalysis => {
+  const inputs = resolveDealInputs(deal);
+  const validation = validateInputs(inputs.assumptions, inputs.personal, scenarios);
+  return {
+    property: deal.property,
+    ...inputs,
+    validation,
+    results: validation.errors.length > 0 ? [] : scenarios.map((scenario) => analyzeScenario(inputs, scenario)),
+  };
+};
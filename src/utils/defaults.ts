@@ -1,4 +1,6 @@
-import type { Assumptions, PersonalInfo, Property } from '../types';
+import type { Assumptions, CapexComponent, PersonalInfo, Property, StartupCostItem } from '../types';
+import { buildSeasonalCalendar } from './shortTermRental';
+import { estimateComponentAge } from './capex';
 
 export const defaultAssumptions: Assumptions = {
   purchasePrice: 425000,
@@ -6,6 +8,19 @@ export const defaultAssumptions: Assumptions = {
   interestRate: 0.0675,
   loanTerm: 30,
   closingCostsPercent: 0.03,
+  loanProgram: 'conventional',
+  rateType: 'fixed',
+  discountPoints: 0,
+  pointRateReduction: 0.0025,
+  pmiRate: 0.005,
+  fhaUpfrontMipPercent: 0.0175,
+  fhaAnnualMipRate: 0.0055,
+  armIndexRate: 0.045,
+  armMarginPercent: 0.0275,
+  armInitialCapPercent: 0.02,
+  armPeriodicCapPercent: 0.01,
+  armLifetimeCapPercent: 0.05,
+  interestOnlyYears: 0,
   landValuePercent: 0.20,
   // Scenario: Rental
   monthlyRent: 2400,
@@ -13,9 +28,48 @@ export const defaultAssumptions: Assumptions = {
   // Scenario: Airbnb
   avgNightlyRate: 185,
   occupancyRate: 0.68,
+  strCalendar: buildSeasonalCalendar(185, 0.68),
+  avgStayNights: 3,
+  cleaningFee: 125,
+  cleaningCostPerTurnover: 110,
+  consumablesPerStay: 20,
+  lodgingTaxRate: 0.06,
   airbnbFeePercent: 0.03,
+  // Startup Capital
+  startupCosts: [
+    { label: 'Furniture & Decor', amount: 18000, scenario: 'airbnb', depreciable: true },
+    { label: 'Smart Locks & Electronics', amount: 2500, scenario: 'airbnb', depreciable: true },
+    { label: 'Photography & Listing Setup', amount: 1200, scenario: 'airbnb', depreciable: false },
+    { label: 'Permits & Licensing', amount: 800, scenario: 'airbnb', depreciable: false },
+    { label: 'Furniture & Housewares', amount: 12000, scenario: 'mid-term', depreciable: true },
+  ],
+  furnishingsRecoveryYears: 5,
+  // Cost Segregation (shares of the depreciable building basis)
+  costSegregationEnabled: false,
+  costSegFiveYearPercent: 0.15,
+  costSegSevenYearPercent: 0.02,
+  costSegFifteenYearPercent: 0.08,
+  placedInServiceYear: 2024,
+  // TCJA phase-down, restored to 100% for property acquired after January 19, 2025
+  bonusDepreciationRates: [
+    { year: 2022, rate: 1.0 },
+    { year: 2023, rate: 0.8 },
+    { year: 2024, rate: 0.6 },
+    { year: 2025, rate: 1.0 },
+  ],
+  // Scenario: Mid-Term (furnished, 30+ day stays)
+  midTermMonthlyRent: 3400,
+  midTermOccupancyRate: 0.85,
+  midTermStayMonths: 3,
+  midTermTurnoverCost: 450,
   // Scenario: Owner
   equivalentRent: 2650,
+  // Scenario: House Hack
+  ownerOccupiedPercent: 0.25,
+  houseHackRentType: 'per-room',
+  houseHackUnitRent: 1800,
+  rentPerRoom: 850,
+  roomsRented: 3,
   // Common Expenses
   propertyTaxPercent: 0.0115,
   homeInsurancePercent: 0.0038,
@@ -23,14 +77,73 @@ export const defaultAssumptions: Assumptions = {
   maintenancePercent: 0.08,
   utilitiesMonthly: 185,
   mgmtFeePercent: 0.10,
+  // Capital Expenditures
+  capexComponents: [
+    { label: 'Roof', replacementCost: 12000, usefulLife: 25, age: 12 },
+    { label: 'HVAC', replacementCost: 8000, usefulLife: 18, age: 9 },
+    { label: 'Water Heater', replacementCost: 1800, usefulLife: 12, age: 8 },
+    { label: 'Windows', replacementCost: 10000, usefulLife: 30, age: 20 },
+  ],
+  // Projection
+  holdPeriodYears: 7,
+  rentGrowthRate: 0.03,
+  expenseGrowthRate: 0.03,
+  appreciationRate: 0.035,
+  // Sale
+  sellingCommissionPercent: 0.055,
+  transferTaxPercent: 0.005,
+  // Underwriting
+  underwritingThresholds: {
+    minDebtServiceCoverage: 1.25,
+    maxGrossRentMultiplier: 10,
+    maxBreakEvenOccupancy: 0.85,
+    maxOperatingExpenseRatio: 0.45,
+    maxPriceToRentRatio: 15,
+    minMonthlyRentToPrice: 0.01,
+    fiftyPercentRuleExpenseShare: 0.5,
+  },
+  // Scenario: BRRRR
+  rehabCost: 45000,
+  refinanceMonth: 6,
+  appraisedValue: 520000,
+  refinanceLtvPercent: 0.75,
+  refinanceInterestRate: 0.07,
+  refinanceLoanTerm: 30,
+  refinanceClosingCostsPercent: 0.02,
 };
 
 export const defaultPersonal: PersonalInfo = {
-  federalTaxRate: 0.24,
+  filingStatus: 'single',
+  w2Income: 150000,
+  taxYear: '2024',
   stateTaxRate: 0.06,
+  activeParticipation: true,
+  realEstateProfessional: false,
+  strMaterialParticipation: false,
+  suspendedLossCarryforward: 0,
   opportunityCostRate: 0.08,
+  opportunityCostMethod: 'simple',
+  inflationRate: 0.025,
+  capitalGainsRate: 0.15,
 };
 
+/**
+ * Market ranges the simulator draws from, for inputs that don't scale with the property.
+ * Also the default spread for Monte Carlo simulation.
+ */
+export const SIMULATED_RANGES = {
+  occupancyRate: [0.55, 0.75],
+  midTermOccupancyRate: [0.80, 0.92],
+  propertyTaxPercent: [0.008, 0.015],
+  interestRate: [0.0625, 0.0750],
+  closingCostsPercent: [0.025, 0.040],
+  landValuePercent: [0.20, 0.35],
+  vacancyPercent: [0.04, 0.08],
+  maintenancePercent: [0.06, 0.12],
+  mgmtFeePercent: [0.08, 0.12],
+  airbnbFeePercent: [0.03, 0.05],
+} satisfies Partial<Record<keyof Assumptions, [number, number]>>;
+
 /**
  * Helper to generate consistent randomization with a seed based on property characteristics
  */
@@ -133,7 +246,7 @@ const calculateAirbnbRate = (monthlyRent: number, property: Property, seed: numb
  */
 const calculateOccupancyRate = (seed: number): number => {
   // Realistic occupancy ranges: 55% - 75% for most markets
-  return seededRandom(seed + 25, 0.55, 0.75);
+  return seededRandom(seed + 25, ...SIMULATED_RANGES.occupancyRate);
 };
 
 /**
@@ -142,7 +255,7 @@ const calculateOccupancyRate = (seed: number): number => {
 const calculatePropertyTax = (seed: number): number => {
   // US property tax ranges: 0.3% - 2.5% annually
   // Most common: 0.8% - 1.5%
-  return seededRandom(seed + 30, 0.008, 0.015);
+  return seededRandom(seed + 30, ...SIMULATED_RANGES.propertyTaxPercent);
 };
 
 /**
@@ -216,7 +329,7 @@ const calculateUtilities = (property: Property, seed: number): number => {
  */
 const calculateInterestRate = (seed: number): number => {
   // Current market rates (2024): 6.5% - 7.5% for 30-year fixed
-  const rate = seededRandom(seed + 50, 0.0625, 0.0750);
+  const rate = seededRandom(seed + 50, ...SIMULATED_RANGES.interestRate);
 
   // Round to nearest 1/8 point (0.125%)
   return Math.round(rate / 0.00125) * 0.00125;
@@ -256,6 +369,18 @@ export const simulatePropertyData = (property: Property): Assumptions => {
   // Equivalent rent should be similar but slightly different
   const equivalentRent = Math.round(monthlyRent * seededRandom(seed + 60, 1.05, 1.15) / 50) * 50;
 
+  // House hack: rooms rent at a 5% - 20% premium over their share of the whole-home rent,
+  // with the owner keeping one bedroom
+  const roomsRented = Math.max(1, property.beds - 1);
+  const rentPerRoom = Math.round(monthlyRent / Math.max(1, property.beds) * seededRandom(seed + 62, 1.05, 1.20) / 25) * 25;
+  const ownerOccupiedPercent = 1 / Math.max(2, property.beds);
+  const houseHackUnitRent = Math.round(monthlyRent * (1 - ownerOccupiedPercent) / 25) * 25;
+
+  // Mid-term: furnished 30+ day rent commands a 30% - 60% premium over unfurnished rent,
+  // with 80% - 92% occupancy between 2 - 4 month stays
+  const midTermMonthlyRent = Math.round(monthlyRent * seededRandom(seed + 63, 1.3, 1.6) / 50) * 50;
+  const midTermOccupancyRate = seededRandom(seed + 64, ...SIMULATED_RANGES.midTermOccupancyRate);
+
   // Generate realistic Airbnb metrics
   const avgNightlyRate = calculateAirbnbRate(monthlyRent, property, seed);
   const occupancyRate = calculateOccupancyRate(seed);
@@ -271,23 +396,61 @@ export const simulatePropertyData = (property: Property): Assumptions => {
   const downPaymentPercent = calculateDownPayment(property, seed);
 
   // Realistic closing costs: 2.5% - 4%
-  const closingCostsPercent = seededRandom(seed + 65, 0.025, 0.040);
+  const closingCostsPercent = seededRandom(seed + 65, ...SIMULATED_RANGES.closingCostsPercent);
 
   // Land value: typically 20% - 35% for residential
-  const landValuePercent = seededRandom(seed + 70, 0.20, 0.35);
+  const landValuePercent = seededRandom(seed + 70, ...SIMULATED_RANGES.landValuePercent);
 
   // Vacancy rate varies by market: 4% - 8%
-  const vacancyPercent = seededRandom(seed + 75, 0.04, 0.08);
+  const vacancyPercent = seededRandom(seed + 75, ...SIMULATED_RANGES.vacancyPercent);
 
   // Maintenance: 0.5% - 1.5% of property value annually (as % of rent: varies)
   // For rental income: typically 6% - 12% of gross rent
-  const maintenancePercent = seededRandom(seed + 80, 0.06, 0.12);
+  const maintenancePercent = seededRandom(seed + 80, ...SIMULATED_RANGES.maintenancePercent);
 
   // Property management: 8% - 12% of gross rent
-  const mgmtFeePercent = seededRandom(seed + 85, 0.08, 0.12);
+  const mgmtFeePercent = seededRandom(seed + 85, ...SIMULATED_RANGES.mgmtFeePercent);
 
   // Airbnb/VRBO fees: 3% - 5%
-  const airbnbFeePercent = seededRandom(seed + 90, 0.03, 0.05);
+  const airbnbFeePercent = seededRandom(seed + 90, ...SIMULATED_RANGES.airbnbFeePercent);
+
+  // Seasonal calendar around the simulated averages
+  const strCalendar = buildSeasonalCalendar(avgNightlyRate, occupancyRate);
+
+  // Cleaning fee charged to guests: roughly 0.6x - 0.9x a night, more for bigger homes
+  const cleaningFee = Math.round(avgNightlyRate * seededRandom(seed + 91, 0.6, 0.9) / 5) * 5;
+  const cleaningCostPerTurnover = Math.round(cleaningFee * seededRandom(seed + 92, 0.8, 0.95) / 5) * 5;
+
+  // STR furnishing: roughly $4k - $7k per bedroom plus common areas, $15k - $40k all in
+  const furnishingCost = Math.round((8000 + property.beds * seededRandom(seed + 93, 4000, 7000)) / 500) * 500;
+  const startupCosts: StartupCostItem[] = [
+    { label: 'Furniture & Decor', amount: Math.min(40000, Math.max(15000, furnishingCost)), scenario: 'airbnb', depreciable: true },
+    { label: 'Smart Locks & Electronics', amount: Math.round(seededRandom(seed + 94, 1500, 3500) / 100) * 100, scenario: 'airbnb', depreciable: true },
+    { label: 'Photography & Listing Setup', amount: 1200, scenario: 'airbnb', depreciable: false },
+    { label: 'Permits & Licensing', amount: 800, scenario: 'airbnb', depreciable: false },
+    { label: 'Furniture & Housewares', amount: Math.round(furnishingCost * 0.7 / 500) * 500, scenario: 'mid-term', depreciable: true },
+  ];
+
+  // Capex components: costs scale with size; ages assume replacement on schedule since built
+  const propertyAge = 2024 - property.year;
+  const sizeFactor = seededRandom(seed + 98, 0.85, 1.15) * (1 + (property.beds - 3) * 0.1);
+  const capexComponents: CapexComponent[] = [
+    { label: 'Roof', replacementCost: 12000, usefulLife: 25 },
+    { label: 'HVAC', replacementCost: 8000, usefulLife: 18 },
+    { label: 'Water Heater', replacementCost: 1800, usefulLife: 12 },
+    { label: 'Windows', replacementCost: 10000, usefulLife: 30 },
+  ].map((component) => ({
+    ...component,
+    replacementCost: Math.round(component.replacementCost * sizeFactor / 100) * 100,
+    age: estimateComponentAge(component.usefulLife, propertyAge),
+  }));
+
+  // BRRRR: rehab of 8% - 15% of price, forced appreciation of 10% - 25% over all-in cost
+  const rehabCost = Math.round(purchasePrice * seededRandom(seed + 95, 0.08, 0.15) / 5000) * 5000;
+  const appraisedValue = Math.round((purchasePrice + rehabCost) * seededRandom(seed + 96, 1.10, 1.25) / 5000) * 5000;
+
+  // Cash-out refinances typically price 0.25% - 0.5% above purchase rates
+  const refinanceInterestRate = Math.round((interestRate + seededRandom(seed + 97, 0.0025, 0.005)) / 0.00125) * 0.00125;
 
   return {
     ...defaultAssumptions,
@@ -301,14 +464,28 @@ export const simulatePropertyData = (property: Property): Assumptions => {
     vacancyPercent,
     avgNightlyRate,
     occupancyRate,
+    strCalendar,
+    cleaningFee,
+    cleaningCostPerTurnover,
     airbnbFeePercent,
+    startupCosts,
+    capexComponents,
+    midTermMonthlyRent,
+    midTermOccupancyRate,
     equivalentRent,
+    ownerOccupiedPercent,
+    rentPerRoom,
+    roomsRented,
+    houseHackUnitRent,
     propertyTaxPercent,
     homeInsurancePercent,
     monthlyHOA,
     maintenancePercent,
     utilitiesMonthly,
     mgmtFeePercent,
+    rehabCost,
+    appraisedValue,
+    refinanceInterestRate,
   };
 };
 
@@ -0,0 +1,121 @@
+import type { Assumptions, DepreciationYear, MacrsRecoveryYears, Scenario } from '../types';
+
+// Residential rental property is depreciated straight-line over 27.5 years
+const RESIDENTIAL_RECOVERY_YEARS = 27.5;
+
+// MACRS half-year convention (IRS Pub. 946, Table A-1): 200% declining balance
+// for 5- and 7-year property, 150% for 15-year land improvements
+const MACRS_RATES: Record<MacrsRecoveryYears, number[]> = {
+  5: [0.20, 0.32, 0.192, 0.1152, 0.1152, 0.0576],
+  7: [0.1429, 0.2449, 0.1749, 0.1249, 0.0893, 0.0892, 0.0893, 0.0446],
+  15: [0.05, 0.095, 0.0855, 0.077, 0.0693, 0.0623, 0.059, 0.059, 0.0591, 0.059, 0.0591, 0.059, 0.0591, 0.059, 0.0591, 0.0295],
+};
+
+// Last year with any depreciation: the building's final half-year
+export const FINAL_DEPRECIATION_YEAR = Math.ceil(RESIDENTIAL_RECOVERY_YEARS);
+
+/**
+ * Straight-line building depreciation for a year of ownership.
+ * The final half-year falls in year 28.
+ */
+export const getResidentialDepreciation = (basis: number, year: number): number => {
+  const depreciableFraction = Math.max(0, Math.min(1, RESIDENTIAL_RECOVERY_YEARS - (year - 1)));
+  return basis / RESIDENTIAL_RECOVERY_YEARS * depreciableFraction;
+};
+
+/**
+ * MACRS depreciation on personal property (furniture, appliances, electronics)
+ * for a year of ownership.
+ */
+export const getMacrsDepreciation = (basis: number, recoveryYears: MacrsRecoveryYears, year: number): number => {
+  return basis * (MACRS_RATES[recoveryYears][year - 1] ?? 0);
+};
+
+/**
+ * Bonus depreciation rate for the placed-in-service year: the rate of the
+ * latest schedule entry at or before it (0 before the first entry).
+ */
+export const getBonusDepreciationRate = (assumptions: Assumptions): number => {
+  return [...assumptions.bonusDepreciationRates]
+    .sort((a, b) => a.year - b.year)
+    .reduce((rate, entry) => (entry.year <= assumptions.placedInServiceYear ? entry.rate : rate), 0);
+};
+
+/**
+ * MACRS depreciation with bonus depreciation taken in full in Year 1
+ * and the rest of the basis recovered on the regular schedule.
+ */
+const getAcceleratedDepreciation = (basis: number, recoveryYears: MacrsRecoveryYears, bonusRate: number, year: number): number => {
+  const bonus = year === 1 ? basis * bonusRate : 0;
+  return bonus + getMacrsDepreciation(basis * (1 - bonusRate), recoveryYears, year);
+};
+
+/**
+ * Depreciation for a year of ownership, by asset class. With cost segregation
+ * on, part of the building basis is reclassified into 5-, 7- and 15-year
+ * property. Bonus depreciation applies to that property and, with or without
+ * cost segregation, to the furnishings.
+ */
+export const getDepreciationYear = (
+  assumptions: Assumptions,
+  basis: { building: number; furnishings: number },
+  year: number
+): DepreciationYear => {
+  const { costSegregationEnabled, costSegFiveYearPercent, costSegSevenYearPercent, costSegFifteenYearPercent, furnishingsRecoveryYears } = assumptions;
+  const fiveYearShare = costSegregationEnabled ? costSegFiveYearPercent : 0;
+  const sevenYearShare = costSegregationEnabled ? costSegSevenYearPercent : 0;
+  const fifteenYearShare = costSegregationEnabled ? costSegFifteenYearPercent : 0;
+  const bonusRate = getBonusDepreciationRate(assumptions);
+  const buildingShare = Math.max(0, 1 - fiveYearShare - sevenYearShare - fifteenYearShare);
+
+  const building = getResidentialDepreciation(basis.building * buildingShare, year);
+  const fiveYear = getAcceleratedDepreciation(basis.building * fiveYearShare, 5, bonusRate, year);
+  const sevenYear = getAcceleratedDepreciation(basis.building * sevenYearShare, 7, bonusRate, year);
+  const fifteenYear = getAcceleratedDepreciation(basis.building * fifteenYearShare, 15, bonusRate, year);
+  const furnishings = getAcceleratedDepreciation(basis.furnishings, furnishingsRecoveryYears, bonusRate, year);
+
+  return {
+    year,
+    building,
+    fiveYear,
+    sevenYear,
+    fifteenYear,
+    furnishings,
+    total: building + fiveYear + sevenYear + fifteenYear + furnishings,
+  };
+};
+
+/**
+ * Scales the real-property classes (building and cost-segregated components)
+ * to a share of the property; furnishings belong to the rental in full.
+ */
+export const scaleBuildingDepreciation = (depreciation: DepreciationYear, share: number): DepreciationYear => {
+  const building = depreciation.building * share;
+  const fiveYear = depreciation.fiveYear * share;
+  const sevenYear = depreciation.sevenYear * share;
+  const fifteenYear = depreciation.fifteenYear * share;
+  return {
+    ...depreciation,
+    building,
+    fiveYear,
+    sevenYear,
+    fifteenYear,
+    total: building + fiveYear + sevenYear + fifteenYear + depreciation.furnishings,
+  };
+};
+
+/**
+ * Startup capital spent on a scenario before it starts earning:
+ * the total, and the depreciable part (furnishings and equipment).
+ */
+export const getStartupCapital = (assumptions: Assumptions, scenario: Scenario): { total: number; depreciable: number } => {
+  return assumptions.startupCosts
+    .filter((item) => item.scenario === scenario)
+    .reduce(
+      (sum, item) => ({
+        total: sum.total + item.amount,
+        depreciable: sum.depreciable + (item.depreciable ? item.amount : 0),
+      }),
+      { total: 0, depreciable: 0 }
+    );
+};
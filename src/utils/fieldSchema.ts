@@ -0,0 +1,316 @@
+import type { Assumptions, FieldMeta, FieldSchema, PersonalInfo, UnderwritingThresholds } from '../types';
+import { formatCurrency, formatPercent } from './calculations';
+
+/**
+ * Unit, label and bounds for every numeric assumption.
+ */
+export const ASSUMPTION_FIELDS: FieldSchema<Assumptions> = {
+  // Purchase & Loan
+  purchasePrice: { unit: 'currency', label: 'Purchase Price', min: 0, step: 1000 },
+  downPaymentPercent: { unit: 'percent', label: 'Down Payment', min: 0, max: 100, step: 1 },
+  interestRate: { unit: 'percent', label: 'Interest Rate', min: 1, max: 15, step: 0.125 },
+  loanTerm: { unit: 'years', label: 'Loan Term (Years)', min: 1, step: 1 },
+  closingCostsPercent: { unit: 'percent', label: 'Closing Costs', min: 0, max: 10, step: 0.1 },
+  pmiRate: {
+    unit: 'percent',
+    label: 'PMI Rate',
+    tooltip: '(annual, as % of Loan; applies above 80% LTV, drops off at 78%)',
+    min: 0,
+    max: 2,
+    step: 0.05,
+  },
+  fhaUpfrontMipPercent: {
+    unit: 'percent',
+    label: 'FHA Upfront MIP',
+    tooltip: '(as % of Loan, financed into the loan)',
+    min: 0,
+    max: 3,
+    step: 0.05,
+  },
+  fhaAnnualMipRate: { unit: 'percent', label: 'FHA Annual MIP', tooltip: '(annual, as % of Loan Balance)', min: 0, max: 2, step: 0.05 },
+  discountPoints: { unit: 'count', label: 'Discount Points', min: 0, step: 0.25 },
+  pointRateReduction: {
+    unit: 'percent',
+    label: 'Rate Reduction per Point',
+    tooltip: '(each point costs 1% of the Loan)',
+    min: 0,
+    max: 0.5,
+    step: 0.025,
+  },
+  armIndexRate: {
+    unit: 'percent',
+    label: 'Assumed Index at Reset',
+    tooltip: '(e.g., SOFR, assumed constant after the fixed period)',
+    min: 0,
+    max: 10,
+    step: 0.125,
+  },
+  armMarginPercent: { unit: 'percent', label: 'ARM Margin', min: 0, max: 5, step: 0.125 },
+  armInitialCapPercent: { unit: 'percent', label: 'Initial Adjustment Cap', min: 0, max: 5, step: 0.5 },
+  armPeriodicCapPercent: { unit: 'percent', label: 'Periodic Adjustment Cap', min: 0, max: 5, step: 0.5 },
+  armLifetimeCapPercent: {
+    unit: 'percent',
+    label: 'Lifetime Cap',
+    tooltip: '(maximum increase over the start rate)',
+    min: 0,
+    max: 10,
+    step: 0.5,
+  },
+  interestOnlyYears: { unit: 'years', label: 'Interest-Only Period (Years)', min: 0, step: 1 },
+
+  // Long-Term Rental
+  monthlyRent: { unit: 'currency', label: 'Monthly Rent', min: 0, step: 25 },
+
+  // Short-Term Rental
+  avgNightlyRate: { unit: 'currency', label: 'Avg. Nightly Rate', min: 0, step: 5 },
+  occupancyRate: { unit: 'percent', label: 'Occupancy Rate', min: 0, max: 100, step: 1 },
+  avgStayNights: { unit: 'count', label: 'Avg. Stay Length (Nights)', min: 1, step: 0.5 },
+  cleaningFee: { unit: 'currency', label: 'Cleaning Fee Charged to Guests', min: 0, step: 5 },
+  airbnbFeePercent: {
+    unit: 'percent',
+    label: 'Platform Fee',
+    tooltip: '(as % of STR Gross Income)',
+    min: 0,
+    max: 20,
+    step: 0.1,
+  },
+  cleaningCostPerTurnover: { unit: 'currency', label: 'Cleaning Cost per Turnover', min: 0, step: 5 },
+  consumablesPerStay: { unit: 'currency', label: 'Consumables per Stay', min: 0, step: 5 },
+  lodgingTaxRate: {
+    unit: 'percent',
+    label: 'Lodging Tax',
+    tooltip: '(occupancy tax remitted out of booking revenue)',
+    min: 0,
+    max: 20,
+    step: 0.5,
+  },
+
+  // Mid-Term Rental
+  midTermMonthlyRent: { unit: 'currency', label: 'Furnished Monthly Rent', min: 0, step: 25 },
+  midTermOccupancyRate: {
+    unit: 'percent',
+    label: 'Occupancy Rate',
+    tooltip: '(months booked, after gaps between tenants)',
+    min: 0,
+    max: 100,
+    step: 1,
+  },
+  midTermStayMonths: { unit: 'count', label: 'Avg. Stay Length (Months)', min: 1, step: 0.5 },
+  midTermTurnoverCost: { unit: 'currency', label: 'Turnover Cost per Tenant', min: 0, step: 25 },
+
+  // Owner & House Hack
+  equivalentRent: { unit: 'currency', label: 'Equivalent Rent', min: 0, step: 25 },
+  ownerOccupiedPercent: {
+    unit: 'percent',
+    label: 'Owner-Occupied Share',
+    tooltip: '(share of the property you live in; shared costs are split by it)',
+    min: 0,
+    max: 100,
+    step: 1,
+  },
+  houseHackUnitRent: { unit: 'currency', label: 'Monthly Rent from Other Units', min: 0, step: 25 },
+  rentPerRoom: { unit: 'currency', label: 'Monthly Rent per Room', min: 0, step: 25 },
+  roomsRented: { unit: 'count', label: 'Rooms Rented', min: 0, step: 1 },
+
+  // BRRRR
+  rehabCost: { unit: 'currency', label: 'Rehab Budget', min: 0, step: 1000 },
+  appraisedValue: { unit: 'currency', label: 'After-Repair Appraised Value', min: 0, step: 1000 },
+  refinanceMonth: { unit: 'count', label: 'Refinance Month', min: 1, step: 1 },
+  refinanceLtvPercent: {
+    unit: 'percent',
+    label: 'Refinance LTV',
+    tooltip: '(as % of Appraised Value)',
+    min: 0,
+    max: 100,
+    step: 1,
+  },
+  refinanceInterestRate: { unit: 'percent', label: 'Refinance Interest Rate', min: 1, max: 15, step: 0.125 },
+  refinanceLoanTerm: { unit: 'years', label: 'Refinance Term (Years)', min: 1, step: 1 },
+  refinanceClosingCostsPercent: {
+    unit: 'percent',
+    label: 'Refinance Closing Costs',
+    tooltip: '(as % of New Loan)',
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+
+  // Startup Capital & Cost Segregation
+  furnishingsRecoveryYears: { unit: 'years', label: 'Furnishings Depreciation', min: 5, max: 7, step: 2 },
+  costSegFiveYearPercent: {
+    unit: 'percent',
+    label: '5-Year Property',
+    tooltip: '(appliances, carpet, cabinetry; as % of building basis)',
+    min: 0,
+    max: 40,
+    step: 1,
+  },
+  costSegSevenYearPercent: {
+    unit: 'percent',
+    label: '7-Year Property',
+    tooltip: '(furniture & fixtures; as % of building basis)',
+    min: 0,
+    max: 20,
+    step: 1,
+  },
+  costSegFifteenYearPercent: {
+    unit: 'percent',
+    label: '15-Year Property',
+    tooltip: '(land improvements: driveway, fencing, landscaping; as % of building basis)',
+    min: 0,
+    max: 30,
+    step: 1,
+  },
+  placedInServiceYear: { unit: 'count', label: 'Placed in Service', step: 1 },
+
+  // Operating Expenses
+  propertyTaxPercent: { unit: 'percent', label: 'Property Tax', tooltip: '(as % of Purchase Price)', min: 0, max: 5, step: 0.05 },
+  homeInsurancePercent: { unit: 'percent', label: 'Home Insurance', tooltip: '(as % of Purchase Price)', min: 0, max: 2, step: 0.01 },
+  monthlyHOA: { unit: 'currency', label: 'Monthly HOA', min: 0, step: 5 },
+  utilitiesMonthly: { unit: 'currency', label: 'Utilities (Monthly)', min: 0, step: 10 },
+  maintenancePercent: { unit: 'percent', label: 'Maintenance', tooltip: '(as % of Gross Income)', min: 0, max: 20, step: 0.5 },
+  vacancyPercent: {
+    unit: 'percent',
+    label: 'Vacancy (LTR)',
+    tooltip: '(as % of LTR Gross Income)',
+    min: 0,
+    max: 20,
+    step: 0.5,
+  },
+  mgmtFeePercent: {
+    unit: 'percent',
+    label: 'Management Fee',
+    tooltip: '(as % of Gross Income)',
+    min: 0,
+    max: 20,
+    step: 0.5,
+  },
+  landValuePercent: {
+    unit: 'percent',
+    label: 'Land Value',
+    tooltip: '(as % of Purchase Price, for depreciation)',
+    min: 0,
+    max: 50,
+    step: 1,
+  },
+
+  // Growth, Hold & Sale
+  holdPeriodYears: { unit: 'years', label: 'Hold Period (Years)', min: 1, max: 30, step: 1 },
+  rentGrowthRate: {
+    unit: 'percent',
+    label: 'Rent Growth',
+    tooltip: '(annual, applies to rent, nightly rate and equivalent rent)',
+    min: -5,
+    max: 10,
+    step: 0.1,
+  },
+  expenseGrowthRate: {
+    unit: 'percent',
+    label: 'Expense Growth',
+    tooltip: '(annual, applies to tax, insurance, HOA and utilities)',
+    min: -5,
+    max: 10,
+    step: 0.1,
+  },
+  appreciationRate: {
+    unit: 'percent',
+    label: 'Home Appreciation',
+    tooltip: '(annual increase in property value)',
+    min: -5,
+    max: 10,
+    step: 0.1,
+  },
+  sellingCommissionPercent: {
+    unit: 'percent',
+    label: 'Selling Commission',
+    tooltip: '(agent commission, as % of Sale Price)',
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+  transferTaxPercent: { unit: 'percent', label: 'Transfer Tax', tooltip: '(as % of Sale Price)', min: 0, max: 5, step: 0.05 },
+};
+
+/**
+ * Unit, label and bounds for every numeric personal input.
+ */
+export const PERSONAL_FIELDS: FieldSchema<PersonalInfo> = {
+  w2Income: { unit: 'currency', label: 'W-2 Income', min: 0, step: 1000 },
+  stateTaxRate: { unit: 'percent', label: 'State Tax Rate', min: 0, max: 15, step: 0.5 },
+  capitalGainsRate: {
+    unit: 'percent',
+    label: 'Capital Gains Tax Rate',
+    tooltip: 'Federal long-term capital gains rate applied when you sell',
+    min: 0,
+    max: 25,
+    step: 1,
+  },
+  suspendedLossCarryforward: { unit: 'currency', label: 'Prior Suspended Passive Losses', min: 0, step: 1000 },
+  opportunityCostRate: {
+    unit: 'percent',
+    label: 'Opportunity Cost Rate',
+    tooltip: 'Expected return if your cash was invested elsewhere (e.g., S&P 500)',
+    min: 0,
+    max: 15,
+    step: 0.1,
+  },
+  inflationRate: {
+    unit: 'percent',
+    label: 'Inflation Rate',
+    tooltip: '(annual; converts projections to purchase-year dollars)',
+    min: 0,
+    max: 10,
+    step: 0.1,
+  },
+};
+
+/**
+ * Unit, label and bounds for every underwriting threshold (the nested
+ * `underwritingThresholds` assumption).
+ */
+export const UNDERWRITING_THRESHOLD_FIELDS: FieldSchema<UnderwritingThresholds> = {
+  minDebtServiceCoverage: { unit: 'count', label: 'Min. DSCR (x)', min: 0, step: 0.05 },
+  maxGrossRentMultiplier: { unit: 'count', label: 'Max. Gross Rent Multiplier (x)', min: 0, step: 0.5 },
+  maxBreakEvenOccupancy: { unit: 'percent', label: 'Max. Break-Even Occupancy', min: 0, max: 100, step: 1 },
+  maxOperatingExpenseRatio: { unit: 'percent', label: 'Max. Operating Expense Ratio', min: 0, max: 100, step: 1 },
+  maxPriceToRentRatio: { unit: 'count', label: 'Max. Price-to-Rent Ratio (x)', min: 0, step: 0.5 },
+  minMonthlyRentToPrice: {
+    unit: 'percent',
+    label: 'Min. Monthly Rent to Price',
+    tooltip: '(the 1% rule)',
+    min: 0,
+    max: 2,
+    step: 0.1,
+  },
+  fiftyPercentRuleExpenseShare: { unit: 'percent', label: 'Expense Share for 50% Rule', min: 0, max: 100, step: 1 },
+};
+
+/**
+ * A stored value in the units the field is entered in (percents as whole numbers).
+ */
+export const toDisplayValue = (field: FieldMeta, value: number): number => {
+  return field.unit === 'percent' ? value * 100 : value;
+};
+
+/**
+ * An entered value back in the units it is stored in (percents as fractions).
+ */
+export const fromDisplayValue = (field: FieldMeta, value: number): number => {
+  return field.unit === 'percent' ? value / 100 : value;
+};
+
+/**
+ * Formats a stored value for display in the field's unit.
+ */
+export const formatFieldValue = (field: FieldMeta, value: number): string => {
+  switch (field.unit) {
+    case 'currency':
+      return formatCurrency(value);
+    case 'percent':
+      return formatPercent(value);
+    case 'years':
+      return `${value.toLocaleString('en-US', { maximumFractionDigits: 1 })} ${value === 1 ? 'yr' : 'yrs'}`;
+    case 'count':
+      return value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  }
+};
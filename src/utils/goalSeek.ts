@@ -0,0 +1,78 @@
+import type { AnalysisInputs, GoalSeekResult, InputVariable, OutputMetric, Scenario } from '../types';
+import { calculateProforma } from './calculations';
+import { getInputValue, isPercentInput, withInputValue } from './inputs';
+
+// Points sampled across the bounds to bracket the target
+const SCAN_STEPS = 40;
+const MAX_ITERATIONS = 60;
+
+/**
+ * Default search bounds: 0-100% for a percent, otherwise zero to three times
+ * the current value.
+ */
+export const getDefaultBounds = (inputs: AnalysisInputs, variable: InputVariable): [number, number] => {
+  const value = getInputValue(inputs, variable);
+  if (isPercentInput(variable)) return [0, 1];
+  return [0, value > 0 ? value * 3 : 1];
+};
+
+/**
+ * Finds the value of one input at which the metric reaches the target: scans
+ * the bounds for a change of sign, taking the bracket nearest the current
+ * value, and bisects it. Where the metric jumps past the target (e.g. at a
+ * tax threshold) the solution is the input at the jump.
+ */
+export const solveForInput = (
+  inputs: AnalysisInputs,
+  scenario: Scenario,
+  metric: OutputMetric,
+  target: number,
+  variable: InputVariable,
+  [lowerBound, upperBound]: [number, number]
+): GoalSeekResult => {
+  let iterations = 0;
+  const gap = (value: number): number => {
+    iterations++;
+    const { assumptions, personal } = withInputValue(inputs, variable, value);
+    return metric.value(calculateProforma(assumptions, personal, scenario)) - target;
+  };
+  const result = (solution: number | null): GoalSeekResult => ({
+    variable,
+    metric,
+    target,
+    lowerBound,
+    upperBound,
+    solution,
+    achieved: solution === null ? null : gap(solution) + target,
+    iterations,
+  });
+
+  const points = Array.from({ length: SCAN_STEPS + 1 }, (_, i) => lowerBound + ((upperBound - lowerBound) * i) / SCAN_STEPS);
+  const gaps = points.map(gap);
+
+  const current = getInputValue(inputs, variable);
+  const brackets = points
+    .slice(0, -1)
+    .map((low, i) => ({ low, high: points[i + 1], lowGap: gaps[i], highGap: gaps[i + 1] }))
+    .filter(({ lowGap, highGap }) => isFinite(lowGap) && isFinite(highGap) && (lowGap === 0 || lowGap * highGap < 0 || highGap === 0))
+    .sort((a, b) => Math.abs((a.low + a.high) / 2 - current) - Math.abs((b.low + b.high) / 2 - current));
+  if (brackets.length === 0) return result(null);
+
+  let { low, high, lowGap } = brackets[0];
+  if (lowGap === 0) return result(low);
+  if (brackets[0].highGap === 0) return result(high);
+
+  for (let i = 0; i < MAX_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    const midGap = gap(mid);
+    if (midGap === 0) return result(mid);
+    if (midGap * lowGap < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      lowGap = midGap;
+    }
+  }
+  // Side of the bracket that meets or beats the target
+  return result(lowGap >= 0 ? low : high);
+};
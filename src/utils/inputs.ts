@@ -0,0 +1,89 @@
+import type { AnalysisInputs, Assumptions, FieldMeta, InputVariable, NumericKey, PersonalInfo, Scenario, ScenarioDefinition } from '../types';
+import { getScenario, getScenarios } from '../scenarios';
+import { ASSUMPTION_FIELDS, PERSONAL_FIELDS, formatFieldValue } from './fieldSchema';
+
+// Numeric inputs that are a year or a choice between set values rather than a quantity
+const FIXED_INPUTS: string[] = ['placedInServiceYear', 'furnishingsRecoveryYears'];
+
+/**
+ * Schema entry for an input.
+ */
+export const getInputField = (variable: InputVariable): FieldMeta => {
+  const schema: Record<string, FieldMeta> = variable.source === 'assumptions' ? ASSUMPTION_FIELDS : PERSONAL_FIELDS;
+  return schema[variable.key];
+};
+
+const getScenarioInputs = (definition: ScenarioDefinition): (keyof Assumptions)[] => [
+  ...definition.fields.map((field) => field.key),
+  ...(definition.sharedInputs ?? []),
+];
+
+/**
+ * Whether an assumption affects a scenario's results: assumptions a scenario
+ * claims, as one of its fields or shared inputs, only affect the scenarios that
+ * claim them.
+ */
+export const assumptionAppliesTo = (key: keyof Assumptions, scenario: Scenario): boolean => {
+  const claimed = getScenarios().some((definition) => getScenarioInputs(definition).includes(key));
+  return !claimed || getScenarioInputs(getScenario(scenario)).includes(key);
+};
+
+/**
+ * Whether an input affects a scenario's results. Personal inputs affect them all.
+ */
+export const inputAppliesTo = (variable: InputVariable, scenario: Scenario): boolean => {
+  return variable.source === 'personal' || assumptionAppliesTo(variable.key, scenario);
+};
+
+/**
+ * Every numeric input in the assumptions and personal info, or only those
+ * that affect `scenario` when given.
+ */
+export const getInputVariables = ({ assumptions, personal }: AnalysisInputs, scenario?: Scenario): InputVariable[] => {
+  const fromAssumptions = (Object.keys(assumptions) as (keyof Assumptions)[])
+    .filter((key): key is NumericKey<Assumptions> => key in ASSUMPTION_FIELDS && !FIXED_INPUTS.includes(key))
+    .map((key): InputVariable => ({ source: 'assumptions', key, label: ASSUMPTION_FIELDS[key].label }));
+  const fromPersonal = (Object.keys(personal) as (keyof PersonalInfo)[])
+    .filter((key): key is NumericKey<PersonalInfo> => key in PERSONAL_FIELDS)
+    .map((key): InputVariable => ({ source: 'personal', key, label: PERSONAL_FIELDS[key].label }));
+  return [...fromAssumptions, ...fromPersonal].filter((variable) => !scenario || inputAppliesTo(variable, scenario));
+};
+
+/**
+ * Current value of an input.
+ */
+export const getInputValue = ({ assumptions, personal }: AnalysisInputs, variable: InputVariable): number => {
+  return Number(variable.source === 'assumptions' ? assumptions[variable.key] : personal[variable.key]);
+};
+
+/**
+ * Copy of the inputs with one value replaced. Scenario fields apply their own
+ * derived updates (e.g. rescaling the STR calendar to a new average rate).
+ */
+export const withInputValue = (inputs: AnalysisInputs, variable: InputVariable, value: number): AnalysisInputs => {
+  if (variable.source === 'personal') {
+    return { ...inputs, personal: { ...inputs.personal, [variable.key]: value } };
+  }
+
+  const field = getScenarios()
+    .flatMap((definition) => definition.fields)
+    .find((candidate) => candidate.key === variable.key);
+  const assumptions = field?.update
+    ? field.update(inputs.assumptions, value)
+    : { ...inputs.assumptions, [variable.key]: value };
+  return { ...inputs, assumptions };
+};
+
+/**
+ * Whether an input is a percent, stored as a fraction.
+ */
+export const isPercentInput = (variable: InputVariable): boolean => {
+  return getInputField(variable).unit === 'percent';
+};
+
+/**
+ * Formats an input value for display in its unit.
+ */
+export const formatInputValue = (variable: InputVariable, value: number): string => {
+  return formatFieldValue(getInputField(variable), value);
+};
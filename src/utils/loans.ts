@@ -0,0 +1,102 @@
+import type { Assumptions, LoanTerms, PurchaseLoan, RateType } from '../types';
+
+// Conventional PMI applies above 80% LTV and drops off automatically at 78%
+const PMI_REQUIRED_LTV = 0.80;
+const PMI_CANCEL_LTV = 0.78;
+
+// FHA annual MIP lasts 11 years with 10%+ down, otherwise the life of the loan
+const FHA_MIP_SHORT_DURATION_LTV = 0.90;
+const FHA_MIP_SHORT_DURATION_MONTHS = 11 * 12;
+
+// Each discount point costs 1% of the loan amount
+const DISCOUNT_POINT_COST = 0.01;
+
+const ARM_FIXED_MONTHS: Record<RateType, number> = {
+  'fixed': 0,
+  'arm-5-1': 60,
+  'arm-7-1': 84,
+};
+
+/**
+ * Translates the purchase & loan assumptions into the loan actually taken:
+ * financed FHA upfront MIP, rate bought down with discount points, ARM resets,
+ * interest-only period and mortgage insurance.
+ */
+export const resolvePurchaseLoan = (assumptions: Assumptions): PurchaseLoan => {
+  const {
+    purchasePrice,
+    downPaymentPercent,
+    interestRate,
+    loanTerm,
+    loanProgram,
+    rateType,
+    discountPoints,
+    pointRateReduction,
+    pmiRate,
+    fhaUpfrontMipPercent,
+    fhaAnnualMipRate,
+    armIndexRate,
+    armMarginPercent,
+    armInitialCapPercent,
+    armPeriodicCapPercent,
+    armLifetimeCapPercent,
+    interestOnlyYears,
+  } = assumptions;
+
+  const baseLoanAmount = purchasePrice * (1 - downPaymentPercent);
+  const originalLtv = purchasePrice > 0 ? baseLoanAmount / purchasePrice : 0;
+
+  // --- FHA Upfront MIP (financed into the loan) ---
+  const upfrontMortgageInsurance = loanProgram === 'fha' ? baseLoanAmount * fhaUpfrontMipPercent : 0;
+  const principal = baseLoanAmount + upfrontMortgageInsurance;
+
+  // --- Discount Points ---
+  const pointsCost = baseLoanAmount * discountPoints * DISCOUNT_POINT_COST;
+  const noteRate = Math.max(0, interestRate - discountPoints * pointRateReduction);
+
+  // --- Mortgage Insurance ---
+  let mortgageInsurance: LoanTerms['mortgageInsurance'];
+  if (loanProgram === 'fha') {
+    mortgageInsurance = {
+      annualRate: fhaAnnualMipRate,
+      basis: 'balance',
+      propertyValue: purchasePrice,
+      maxMonths: originalLtv > FHA_MIP_SHORT_DURATION_LTV ? undefined : FHA_MIP_SHORT_DURATION_MONTHS,
+    };
+  } else if (originalLtv > PMI_REQUIRED_LTV) {
+    mortgageInsurance = {
+      annualRate: pmiRate,
+      basis: 'original',
+      propertyValue: purchasePrice,
+      cancelAtLtv: PMI_CANCEL_LTV,
+    };
+  }
+
+  // --- Adjustable Rate ---
+  const arm: LoanTerms['arm'] = rateType === 'fixed'
+    ? undefined
+    : {
+        fixedMonths: ARM_FIXED_MONTHS[rateType],
+        indexRate: armIndexRate,
+        margin: armMarginPercent,
+        initialCap: armInitialCapPercent,
+        periodicCap: armPeriodicCapPercent,
+        lifetimeCap: armLifetimeCapPercent,
+      };
+
+  return {
+    baseLoanAmount,
+    originalLtv,
+    upfrontMortgageInsurance,
+    pointsCost,
+    noteRate,
+    terms: {
+      principal,
+      annualRate: noteRate,
+      termYears: loanTerm,
+      interestOnlyMonths: Math.max(0, Math.round(interestOnlyYears * 12)),
+      arm,
+      mortgageInsurance,
+    },
+  };
+};
@@ -0,0 +1,37 @@
+import type { DisplayFormat, OutputMetric, Scenario } from '../types';
+import { getScenario } from '../scenarios';
+import { formatCurrency, formatPercent } from './calculations';
+
+/**
+ * Formats a metric value in its display format.
+ */
+export const formatMetricValue = (value: number, format: DisplayFormat = 'currency'): string => {
+  // e.g. cash on cash once every dollar has been pulled out
+  if (value === Infinity) return 'Infinite';
+  if (format === 'percent') return formatPercent(value);
+  if (format === 'count') return value.toFixed(1);
+  if (format === 'ratio') return `${value.toFixed(2)}x`;
+  return formatCurrency(value);
+};
+
+/**
+ * Outputs an analysis can target for a scenario: its annual cash flow
+ * (or net benefit) followed by the key metrics it displays.
+ */
+export const getOutputMetrics = (scenario: Scenario): OutputMetric[] => {
+  const definition = getScenario(scenario);
+  return [
+    {
+      id: 'annual-cash-flow',
+      label: `Annual ${definition.display.projection.cashFlowLabel}`,
+      format: 'currency',
+      value: (proforma) => definition.annualCashFlow(proforma),
+    },
+    ...definition.display.metrics.map((metric): OutputMetric => ({
+      id: metric.label,
+      label: metric.label,
+      format: metric.format ?? 'currency',
+      value: (proforma) => metric.value(proforma),
+    })),
+  ];
+};
@@ -0,0 +1,24 @@
+import type { Assumptions, MidTermIncome } from '../types';
+
+/**
+ * Furnished mid-term rental (30+ day stays) income and turnover costs for a year.
+ * Gaps between tenants are the vacancy; each new tenant costs one turnover
+ * (cleaning, restocking and re-listing).
+ */
+export const calculateMidTermIncome = (assumptions: Assumptions, incomeGrowth: number, expenseGrowth: number): MidTermIncome => {
+  const { midTermMonthlyRent, midTermOccupancyRate, midTermStayMonths, midTermTurnoverCost } = assumptions;
+
+  const monthlyRent = midTermMonthlyRent * incomeGrowth;
+  const monthsOccupied = 12 * midTermOccupancyRate;
+  const turnovers = midTermStayMonths > 0 ? monthsOccupied / midTermStayMonths : 0;
+
+  return {
+    monthlyRent,
+    occupancyRate: midTermOccupancyRate,
+    monthsOccupied,
+    turnovers,
+    grossPotentialRent: monthlyRent * 12,
+    vacancyLoss: monthlyRent * (12 - monthsOccupied),
+    turnoverCost: turnovers * midTermTurnoverCost * expenseGrowth,
+  };
+};
@@ -0,0 +1,184 @@
+import type { AnalysisInputs, Distribution, HistogramBin, InputDistribution, MonteCarloResult, MonteCarloRunOptions, MonteCarloSimulation, Scenario } from '../types';
+import { calculateProforma } from './calculations';
+import { SIMULATED_RANGES } from './defaults';
+import { getInputValue, getInputVariables, withInputValue } from './inputs';
+import { getScenario } from '../scenarios';
+
+// Income inputs have no fixed market range; they vary around the estimate
+const INCOME_INPUTS: string[] = ['monthlyRent', 'avgNightlyRate', 'midTermMonthlyRent', 'equivalentRent', 'rentPerRoom', 'houseHackUnitRent'];
+const INCOME_SPREAD = 0.10;
+
+const HISTOGRAM_BINS = 20;
+
+// Every trial runs each scenario; 2,000 take about two seconds
+export const MAX_TRIALS = 5000;
+
+// Trials run between yields to the browser, so a long run never freezes the page
+const TRIALS_PER_BATCH = 50;
+
+/**
+ * Seeded pseudo-random number generator (mulberry32), uniform on [0, 1).
+ * The same seed always gives the same sequence.
+ */
+export const createRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+/**
+ * Draws one value from a distribution. Normal draws are floored at zero,
+ * since every input is a non-negative quantity.
+ */
+export const sampleDistribution = (distribution: Distribution, random: () => number): number => {
+  switch (distribution.kind) {
+    case 'uniform':
+      return distribution.min + random() * (distribution.max - distribution.min);
+    case 'triangular': {
+      const { min, mode, max } = distribution;
+      if (max <= min) return min;
+      const u = random();
+      const split = (mode - min) / (max - min);
+      return u < split
+        ? min + Math.sqrt(u * (max - min) * (mode - min))
+        : max - Math.sqrt((1 - u) * (max - min) * (max - mode));
+    }
+    case 'normal': {
+      // Box-Muller transform
+      const u1 = 1 - random();
+      const u2 = random();
+      const z = Math.sqrt(-2 * Math.log(u1)) * Math.cos(2 * Math.PI * u2);
+      return Math.max(0, distribution.mean + z * distribution.stdDev);
+    }
+  }
+};
+
+/**
+ * Switches a distribution to another kind over the same spread: the range of a
+ * uniform or triangular distribution is ±2 standard deviations of the normal.
+ */
+export const withDistributionKind = (distribution: Distribution, kind: Distribution['kind']): Distribution => {
+  const [low, center, high] =
+    distribution.kind === 'normal'
+      ? [distribution.mean - 2 * distribution.stdDev, distribution.mean, distribution.mean + 2 * distribution.stdDev]
+      : distribution.kind === 'triangular'
+        ? [distribution.min, distribution.mode, distribution.max]
+        : [distribution.min, (distribution.min + distribution.max) / 2, distribution.max];
+
+  switch (kind) {
+    case 'uniform':
+      return { kind, min: low, max: high };
+    case 'triangular':
+      return { kind, min: low, mode: center, max: high };
+    case 'normal':
+      return { kind, mean: center, stdDev: (high - low) / 4 };
+  }
+};
+
+/**
+ * Default distributions: triangular over the simulator's market range,
+ * peaking at the current value, plus ±10% around each income estimate.
+ */
+export const getDefaultDistributions = (inputs: AnalysisInputs): InputDistribution[] => {
+  const ranges: Record<string, [number, number]> = SIMULATED_RANGES;
+  return getInputVariables(inputs)
+    .filter((variable) => variable.source === 'assumptions')
+    .flatMap((variable): InputDistribution[] => {
+      const value = getInputValue(inputs, variable);
+      const range = ranges[variable.key];
+      if (range) {
+        return [{ variable, distribution: { kind: 'triangular', min: Math.min(range[0], value), mode: value, max: Math.max(range[1], value) } }];
+      }
+      if (INCOME_INPUTS.includes(variable.key) && value > 0) {
+        return [{ variable, distribution: { kind: 'triangular', min: value * (1 - INCOME_SPREAD), mode: value, max: value * (1 + INCOME_SPREAD) } }];
+      }
+      return [];
+    });
+};
+
+/**
+ * Value below which `share` of the sorted values fall, interpolating between neighbours.
+ */
+const percentile = (sorted: number[], share: number): number => {
+  const position = (sorted.length - 1) * share;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const buildHistogram = (sorted: number[]): HistogramBin[] => {
+  const min = sorted[0];
+  const max = sorted[sorted.length - 1];
+  const width = (max - min) / HISTOGRAM_BINS || 1;
+  const bins: HistogramBin[] = Array.from({ length: HISTOGRAM_BINS }, (_, i) => ({
+    from: min + i * width,
+    to: min + (i + 1) * width,
+    count: 0,
+  }));
+  sorted.forEach((value) => {
+    bins[Math.min(HISTOGRAM_BINS - 1, Math.floor((value - min) / width))].count++;
+  });
+  return bins;
+};
+
+const summarize = (scenario: Scenario, values: number[]): MonteCarloResult => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return {
+    scenario,
+    mean: sorted.reduce((sum, value) => sum + value, 0) / sorted.length,
+    p5: percentile(sorted, 0.05),
+    p25: percentile(sorted, 0.25),
+    p50: percentile(sorted, 0.5),
+    p75: percentile(sorted, 0.75),
+    p95: percentile(sorted, 0.95),
+    probabilityNegative: sorted.filter((value) => value < 0).length / sorted.length,
+    histogram: buildHistogram(sorted),
+  };
+};
+
+/**
+ * Runs `trials` draws (1 to MAX_TRIALS) of the distributed inputs and reports
+ * the spread of each scenario's Year 1 annual cash flow. Every scenario sees
+ * the same draws, so they can be compared trial for trial. Trials run in
+ * batches, yielding between them so the page stays responsive; resolves to
+ * null when cancelled through `signal`.
+ */
+export const runMonteCarlo = async (
+  inputs: AnalysisInputs,
+  distributions: InputDistribution[],
+  scenarios: Scenario[],
+  trials: number,
+  seed: number,
+  { onProgress, signal }: MonteCarloRunOptions = {}
+): Promise<MonteCarloSimulation | null> => {
+  const random = createRandom(seed);
+  const values: number[][] = scenarios.map(() => []);
+  const runs = Math.min(MAX_TRIALS, Math.max(1, Math.round(trials)));
+
+  for (let trial = 0; trial < runs; trial++) {
+    if (trial % TRIALS_PER_BATCH === 0) {
+      await new Promise((resolve) => setTimeout(resolve, 0));
+      if (signal?.aborted) return null;
+    }
+    const sampled = distributions.reduce(
+      (current, { variable, distribution }) => withInputValue(current, variable, sampleDistribution(distribution, random)),
+      inputs
+    );
+    scenarios.forEach((scenario, i) => {
+      const proforma = calculateProforma(sampled.assumptions, sampled.personal, scenario);
+      values[i].push(getScenario(scenario).annualCashFlow(proforma));
+    });
+    if ((trial + 1) % TRIALS_PER_BATCH === 0 || trial + 1 === runs) onProgress?.(trial + 1, runs);
+  }
+
+  return {
+    trials: runs,
+    seed,
+    results: scenarios.map((scenario, i) => summarize(scenario, values[i])),
+  };
+};
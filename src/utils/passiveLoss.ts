@@ -0,0 +1,86 @@
+import type { FilingStatus, PassiveActivity, PassiveLossResult, PersonalInfo } from '../types';
+
+// $25k special allowance for active participation, reduced by 50% of MAGI over $100k
+// (married filing separately, living apart all year: $12.5k over $50k)
+const ACTIVE_PARTICIPATION_ALLOWANCE: Record<FilingStatus, number> = {
+  'single': 25000,
+  'married-joint': 25000,
+  'married-separate': 12500,
+  'head-of-household': 25000,
+};
+const PHASE_OUT_START: Record<FilingStatus, number> = {
+  'single': 100000,
+  'married-joint': 100000,
+  'married-separate': 50000,
+  'head-of-household': 100000,
+};
+const PHASE_OUT_RATE = 0.5;
+
+/**
+ * The active-participation allowance left after the MAGI phase-out.
+ * W-2 income stands in for MAGI.
+ */
+export const getActiveParticipationAllowance = (personal: PersonalInfo): number => {
+  const { filingStatus, w2Income } = personal;
+  const reduction = Math.max(0, w2Income - PHASE_OUT_START[filingStatus]) * PHASE_OUT_RATE;
+  return Math.max(0, ACTIVE_PARTICIPATION_ALLOWANCE[filingStatus] - reduction);
+};
+
+/**
+ * Applies the passive activity loss rules to a year's rental income or loss.
+ *
+ * - Real-estate professionals, and STR owners who materially participate,
+ *   treat the activity as non-passive: losses offset W-2 income in full.
+ * - Otherwise losses are passive. Active participants may deduct up to the
+ *   phased-out $25k allowance (long-term rentals only); the rest is
+ *   suspended and carried forward.
+ * - Suspended losses offset future passive income from the property.
+ */
+export const applyPassiveActivityRules = (
+  netTaxableIncome: number,
+  personal: PersonalInfo,
+  activity: PassiveActivity,
+  priorSuspendedLosses: number
+): PassiveLossResult => {
+  const { realEstateProfessional, activeParticipation, strMaterialParticipation } = personal;
+  // REPS, or material participation in a short-term rental, makes the activity non-passive
+  const nonPassive = realEstateProfessional || (activity === 'short-term' && strMaterialParticipation);
+
+  // --- Income: use up suspended losses first ---
+  if (netTaxableIncome >= 0) {
+    const carryforwardUsed = Math.min(priorSuspendedLosses, netTaxableIncome);
+    return {
+      treatment: nonPassive ? 'non-passive' : 'passive',
+      taxableIncome: netTaxableIncome - carryforwardUsed,
+      allowedLoss: carryforwardUsed,
+      suspendedLossCarryforward: priorSuspendedLosses - carryforwardUsed,
+    };
+  }
+
+  const loss = -netTaxableIncome;
+
+  // --- Non-Passive: losses allowed in full ---
+  if (nonPassive) {
+    return {
+      treatment: 'non-passive',
+      taxableIncome: netTaxableIncome,
+      allowedLoss: loss,
+      suspendedLossCarryforward: priorSuspendedLosses,
+    };
+  }
+
+  // --- Passive: $25k allowance, remainder suspended ---
+  // A short-term rental (average stay of 7 days or less) is not a rental
+  // activity, so the allowance never applies to it
+  const allowsSpecialAllowance = activeParticipation && activity !== 'short-term';
+  const allowance = allowsSpecialAllowance ? getActiveParticipationAllowance(personal) : 0;
+  const totalLoss = loss + priorSuspendedLosses;
+  const allowedLoss = Math.min(totalLoss, allowance);
+
+  return {
+    treatment: allowsSpecialAllowance ? 'active-participation' : 'passive',
+    taxableIncome: -allowedLoss,
+    allowedLoss,
+    suspendedLossCarryforward: totalLoss - allowedLoss,
+  };
+};
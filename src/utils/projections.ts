@@ -0,0 +1,139 @@
+import type { Assumptions, DepreciationYear, PersonalInfo, Scenario, Projection, ProjectionYear } from '../types';
+import { calculateProforma } from './calculations';
+import { calculatePropertyValue, calculateSale } from './sale';
+import { getCapexReplacements } from './capex';
+import { FINAL_DEPRECIATION_YEAR } from './depreciation';
+import { getScenario } from '../scenarios';
+
+/**
+ * Net present value of a series of annual cash flows.
+ * The first cash flow is at time zero (undiscounted).
+ */
+export const calculateNPV = (rate: number, cashFlows: number[]): number => {
+  return cashFlows.reduce((npv, cashFlow, t) => npv + cashFlow / Math.pow(1 + rate, t), 0);
+};
+
+/**
+ * Internal rate of return of a series of annual cash flows, found by bisection.
+ * Returns NaN when the cash flows never change sign (no IRR exists).
+ */
+export const calculateIRR = (cashFlows: number[]): number => {
+  let low = -0.99;
+  let high = 10;
+  let npvLow = calculateNPV(low, cashFlows);
+  const npvHigh = calculateNPV(high, cashFlows);
+
+  if (isNaN(npvLow) || isNaN(npvHigh) || npvLow * npvHigh > 0) return NaN;
+
+  for (let i = 0; i < 200; i++) {
+    const mid = (low + high) / 2;
+    const npvMid = calculateNPV(mid, cashFlows);
+    if (Math.abs(npvMid) < 1e-6 || high - low < 1e-9) return mid;
+
+    if (npvLow * npvMid < 0) {
+      high = mid;
+    } else {
+      low = mid;
+      npvLow = npvMid;
+    }
+  }
+  return (low + high) / 2;
+};
+
+/**
+ * Rolls the proforma forward across the hold period and calculates
+ * total-return metrics, assuming the property is sold at the end of the hold
+ * and the after-tax sale proceeds are received in the final year.
+ * Returns are also restated in purchase-year dollars at `personal.inflationRate`.
+ */
+export const calculateProjection = (assumptions: Assumptions, personal: PersonalInfo, scenario: Scenario): Projection => {
+  const holdPeriodYears = Math.max(1, Math.round(assumptions.holdPeriodYears));
+  const definition = getScenario(scenario);
+  const { inflationRate, opportunityCostRate } = personal;
+
+  const years: ProjectionYear[] = [];
+  let cumulativeCashFlow = 0;
+  let realCumulativeCashFlow = 0;
+  let suspendedLosses = personal.suspendedLossCarryforward;
+  let capexReserveBalance = 0;
+
+  for (let year = 1; year <= holdPeriodYears; year++) {
+    const proforma = calculateProforma(assumptions, personal, scenario, { year, priorSuspendedLosses: suspendedLosses });
+    if ('suspendedLossCarryforward' in proforma) {
+      suspendedLosses = proforma.suspendedLossCarryforward;
+    }
+    // Cash received (or saved, for owners and house hackers) this year
+    const cashFlow = (definition.projectionCashFlow ?? definition.annualCashFlow)(proforma);
+    cumulativeCashFlow += cashFlow;
+    const priceLevel = Math.pow(1 + inflationRate, year);
+    realCumulativeCashFlow += cashFlow / priceLevel;
+
+    const propertyValue = calculatePropertyValue(assumptions, scenario, year);
+    const loanBalance = proforma.endingLoanBalance;
+
+    // Replacements are paid from the reserve as they come due
+    const capexReplacements = getCapexReplacements(assumptions, year);
+    const capexSpend = capexReplacements.reduce((sum, replacement) => sum + replacement.cost, 0);
+    capexReserveBalance += proforma.capexReserve - capexSpend;
+
+    years.push({
+      year,
+      proforma,
+      cashFlow,
+      cumulativeCashFlow,
+      propertyValue,
+      loanBalance,
+      equity: propertyValue - loanBalance,
+      capexReplacements,
+      capexSpend,
+      capexReserveBalance,
+      priceLevel,
+      realCumulativeCashFlow,
+    });
+  }
+
+  const initialInvestment = years[0].proforma.totalCashNeeded;
+  const sale = calculateSale(assumptions, personal, scenario, holdPeriodYears);
+  const saleProceeds = sale.afterTaxSaleProceeds;
+
+  const cashFlows = [-initialInvestment, ...years.map((y) => y.cashFlow)];
+  cashFlows[cashFlows.length - 1] += saleProceeds;
+  const realCashFlows = cashFlows.map((cashFlow, t) => cashFlow / Math.pow(1 + inflationRate, t));
+  const realSaleProceeds = saleProceeds / years[years.length - 1].priceLevel;
+
+  return {
+    scenario,
+    holdPeriodYears,
+    years,
+    initialInvestment,
+    sale,
+    cumulativeCashFlow,
+    irr: calculateIRR(cashFlows),
+    npv: calculateNPV(opportunityCostRate, cashFlows),
+    equityMultiple: initialInvestment > 0 ? (cumulativeCashFlow + saleProceeds) / initialInvestment : 0,
+    inflationRate,
+    real: {
+      cumulativeCashFlow: realCumulativeCashFlow,
+      afterTaxSaleProceeds: realSaleProceeds,
+      irr: calculateIRR(realCashFlows),
+      // The real rate discounts real cash flows to the same present value
+      npv: calculateNPV((1 + opportunityCostRate) / (1 + inflationRate) - 1, realCashFlows),
+      equityMultiple: initialInvestment > 0 ? (realCumulativeCashFlow + realSaleProceeds) / initialInvestment : 0,
+    },
+  };
+};
+
+/**
+ * Depreciation by asset class for every year until the property is fully
+ * depreciated, regardless of the hold period. Empty for scenarios that take
+ * no depreciation.
+ */
+export const calculateDepreciationSchedule = (assumptions: Assumptions, personal: PersonalInfo, scenario: Scenario): DepreciationYear[] => {
+  const schedule: DepreciationYear[] = [];
+  for (let year = 1; year <= FINAL_DEPRECIATION_YEAR; year++) {
+    const proforma = calculateProforma(assumptions, personal, scenario, { year });
+    if (!('depreciation' in proforma)) return [];
+    schedule.push(proforma.depreciation);
+  }
+  return schedule;
+};
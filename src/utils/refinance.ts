@@ -0,0 +1,74 @@
+import type { Assumptions, AmortizationYear, RefinanceTerms } from '../types';
+import { buildAmortizationSchedule, buildLoanSchedule, getAmortizationYear } from './amortization';
+import { calculateMonthlyPI } from './calculations';
+import { resolvePurchaseLoan } from './loans';
+
+/**
+ * Calculates the cash-out refinance for a BRRRR deal and the combined
+ * debt service for a given year: the purchase loan is paid until
+ * `refinanceMonth`, when it is paid off and replaced by the new loan.
+ */
+export const calculateRefinance = (assumptions: Assumptions, year: number): RefinanceTerms => {
+  const {
+    appraisedValue,
+    refinanceLtvPercent,
+    refinanceInterestRate,
+    refinanceLoanTerm,
+    refinanceClosingCostsPercent,
+  } = assumptions;
+  const refinanceMonth = Math.max(1, Math.round(assumptions.refinanceMonth));
+
+  // --- Purchase Loan (paid through the month before the refinance) ---
+  const purchaseLoan = resolvePurchaseLoan(assumptions).terms;
+  const purchaseSchedule = buildLoanSchedule(purchaseLoan, 1, refinanceMonth - 1);
+  const payoffBalance = purchaseSchedule.length > 0
+    ? purchaseSchedule[purchaseSchedule.length - 1].balance
+    : purchaseLoan.principal;
+
+  // --- New Loan ---
+  const refinanceLoanAmount = appraisedValue * refinanceLtvPercent;
+  const refinanceClosingCosts = refinanceLoanAmount * refinanceClosingCostsPercent;
+  const cashOut = refinanceLoanAmount - payoffBalance - refinanceClosingCosts;
+  const refinanceAnnualMortgagePayment = calculateMonthlyPI(refinanceLoanAmount, refinanceInterestRate, refinanceLoanTerm) * 12;
+
+  // New-loan month 1 is the refinance month
+  const firstMonth = (year - 1) * 12 + 1;
+  const lastMonth = year * 12;
+  const refinanceSchedule = buildAmortizationSchedule(
+    refinanceLoanAmount,
+    refinanceInterestRate,
+    refinanceLoanTerm,
+    Math.max(1, firstMonth - refinanceMonth + 1),
+    lastMonth - refinanceMonth + 1
+  );
+  const rows = [
+    ...purchaseSchedule.filter((row) => row.month >= firstMonth),
+    ...refinanceSchedule,
+  ];
+
+  const loanYear: AmortizationYear = {
+    year,
+    payment: rows.reduce((sum, row) => sum + row.payment, 0),
+    interest: rows.reduce((sum, row) => sum + row.interest, 0),
+    principal: rows.reduce((sum, row) => sum + row.principal, 0),
+    mortgageInsurance: rows.reduce((sum, row) => sum + row.mortgageInsurance, 0),
+    endingBalance: lastMonth < refinanceMonth
+      ? purchaseSchedule.find((row) => row.month === lastMonth)?.balance ?? 0
+      : refinanceSchedule[refinanceSchedule.length - 1]?.balance ?? 0,
+  };
+
+  return {
+    refinanceMonth,
+    refinanceYear: Math.ceil(refinanceMonth / 12),
+    payoffBalance,
+    refinanceLoanAmount,
+    refinanceClosingCosts,
+    cashOut,
+    refinanceAnnualMortgagePayment,
+    loanYear,
+    stabilizedLoanYear: getAmortizationYear(
+      { principal: refinanceLoanAmount, annualRate: refinanceInterestRate, termYears: refinanceLoanTerm },
+      1
+    ),
+  };
+};
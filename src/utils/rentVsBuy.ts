@@ -0,0 +1,69 @@
+import type { Assumptions, PersonalInfo, RentVsBuy, RentVsBuyYear } from '../types';
+import { calculateProforma } from './calculations';
+import { calculateSale } from './sale';
+import { getCapexReplacements } from './capex';
+
+/**
+ * Grows an investment balance for a year at `rate`, with `contribution`
+ * added in equal monthly amounts. A negative contribution is a withdrawal.
+ */
+const growInvestments = (balance: number, contribution: number, rate: number): number => {
+  const monthlyRate = Math.pow(1 + rate, 1 / 12) - 1;
+  const growth = Math.pow(1 + monthlyRate, 12);
+  const contributions = monthlyRate === 0 ? contribution : (contribution / 12) * ((growth - 1) / monthlyRate);
+  return balance * growth + contributions;
+};
+
+/**
+ * Simulates buying the home against renting the equivalent home for `years`.
+ * The renter invests the cash the purchase would have needed; each year,
+ * whichever path costs less invests the difference at the opportunity cost
+ * rate. The owner pays the after-tax cost of owning, routine maintenance
+ * and capex replacements as they come due, and is credited with the home's
+ * equity as if sold at the end of each year.
+ */
+export const calculateRentVsBuy = (assumptions: Assumptions, personal: PersonalInfo, years: number): RentVsBuy => {
+  const rate = personal.opportunityCostRate;
+  const horizon = Math.max(1, Math.round(years));
+
+  const results: RentVsBuyYear[] = [];
+  let initialInvestment = 0;
+  let renterNetWorth = 0;
+  let ownerInvestments = 0;
+
+  for (let year = 1; year <= horizon; year++) {
+    const proforma = calculateProforma(assumptions, personal, 'owner', { year });
+    if (proforma.scenario !== 'owner') break;
+    if (year === 1) {
+      initialInvestment = proforma.totalCashNeeded;
+      renterNetWorth = initialInvestment;
+    }
+
+    const rent = proforma.grossAvoidedRent;
+    // Maintenance is budgeted as for a rental of the home; replacements are
+    // paid when due rather than reserved
+    const maintenance = rent * assumptions.maintenancePercent;
+    const capexSpend = getCapexReplacements(assumptions, year).reduce((sum, replacement) => sum + replacement.cost, 0);
+    const ownerCost = proforma.netAnnualCost - proforma.capexReserve + capexSpend + maintenance;
+
+    renterNetWorth = growInvestments(renterNetWorth, Math.max(0, ownerCost - rent), rate);
+    ownerInvestments = growInvestments(ownerInvestments, Math.max(0, rent - ownerCost), rate);
+    const homeEquity = calculateSale(assumptions, personal, 'owner', year).afterTaxSaleProceeds;
+
+    results.push({
+      year,
+      rent,
+      ownerCost,
+      renterNetWorth,
+      homeEquity,
+      ownerInvestments,
+      ownerNetWorth: homeEquity + ownerInvestments,
+    });
+  }
+
+  return {
+    years: results,
+    initialInvestment,
+    breakevenYear: results.find((result) => result.ownerNetWorth >= result.renterNetWorth)?.year ?? null,
+  };
+};
@@ -0,0 +1,135 @@
+import type { Assumptions, FilingStatus, PersonalInfo, Scenario, SaleAnalysis } from '../types';
+import { calculateProforma } from './calculations';
+import { calculateMarginalTaxEffect } from './tax';
+import { getStartupCapital } from './depreciation';
+import { getScenario } from '../scenarios';
+
+// Maximum federal rate on unrecaptured Section 1250 gain
+const DEPRECIATION_RECAPTURE_RATE = 0.25;
+
+// Section 121 exclusion by filing status
+const PRIMARY_RESIDENCE_EXCLUSION: Record<FilingStatus, number> = {
+  'single': 250000,
+  'married-joint': 500000,
+  'married-separate': 250000,
+  'head-of-household': 250000,
+};
+
+// Owner must have lived in the home 2 of the last 5 years
+const PRIMARY_RESIDENCE_MIN_YEARS = 2;
+
+/**
+ * Market value of the property at the end of `year`.
+ * Scenarios may appreciate from another starting value (BRRRR uses the after-repair appraisal).
+ */
+export const calculatePropertyValue = (assumptions: Assumptions, scenario: Scenario, year: number): number => {
+  const startingValue = getScenario(scenario).startingValue?.(assumptions) ?? assumptions.purchasePrice;
+  return startingValue * Math.pow(1 + assumptions.appreciationRate, year);
+};
+
+/**
+ * Models selling the property at the end of `saleYear`.
+ * Depreciation taken is recaptured: on cost-segregated property and
+ * furnishings (§1245) at ordinary rates, on the building (§1250) at up to
+ * 25%. The rest of the gain is taxed as long-term capital gains, and the
+ * primary-residence exclusion applies to the share of the property the
+ * owner lived in.
+ */
+export const calculateSale = (
+  assumptions: Assumptions,
+  personal: PersonalInfo,
+  scenario: Scenario,
+  saleYear: number
+): SaleAnalysis => {
+  const {
+    purchasePrice,
+    closingCostsPercent,
+    sellingCommissionPercent,
+    transferTaxPercent,
+  } = assumptions;
+  const { stateTaxRate, capitalGainsRate } = personal;
+  const definition = getScenario(scenario);
+
+  // --- Sale Price & Costs ---
+  const salePrice = calculatePropertyValue(assumptions, scenario, saleYear);
+  const sellingCommission = salePrice * sellingCommissionPercent;
+  const transferTax = salePrice * transferTaxPercent;
+  const sellingCosts = sellingCommission + transferTax;
+  const amountRealized = salePrice - sellingCosts;
+
+  // --- Loan Payoff, Depreciation Taken & Suspended Losses ---
+  let loanBalance = 0;
+  let accumulatedDepreciation = 0;
+  let section1245Depreciation = 0;
+  let suspendedLosses = personal.suspendedLossCarryforward;
+  let hasPassiveActivity = false;
+  for (let year = 1; year <= saleYear; year++) {
+    const proforma = calculateProforma(assumptions, personal, scenario, { year, priorSuspendedLosses: suspendedLosses });
+    loanBalance = proforma.endingLoanBalance;
+    if ('annualDepreciation' in proforma) {
+      accumulatedDepreciation += proforma.annualDepreciation;
+      section1245Depreciation += proforma.costSegregationDepreciation + proforma.furnishingsDepreciation;
+      suspendedLosses = proforma.suspendedLossCarryforward;
+      hasPassiveActivity = true;
+    }
+  }
+  const netSaleProceeds = amountRealized - loanBalance;
+
+  // --- Gain ---
+  // Purchase closing costs, rehab and furnishings are added to basis; depreciation reduces it
+  const capitalImprovements = (definition.capitalImprovements?.(assumptions) ?? 0) +
+    getStartupCapital(assumptions, scenario).depreciable;
+  const adjustedBasis = purchasePrice * (1 + closingCostsPercent) + capitalImprovements - accumulatedDepreciation;
+  const totalGain = amountRealized - adjustedBasis;
+
+  // Gain up to the depreciation taken is recaptured, §1245 first
+  const depreciationRecapture = Math.min(accumulatedDepreciation, Math.max(totalGain, 0));
+  const section1245Recapture = Math.min(section1245Depreciation, depreciationRecapture);
+  const section1250Recapture = depreciationRecapture - section1245Recapture;
+  const section1245RecaptureTax = calculateMarginalTaxEffect(personal, section1245Recapture).totalTaxChange;
+  const section1250RecaptureTax = section1250Recapture * (DEPRECIATION_RECAPTURE_RATE + stateTaxRate);
+  const recaptureTax = section1245RecaptureTax + section1250RecaptureTax;
+
+  // The exclusion covers the owner-occupied share of the remaining gain
+  const residenceShare = definition.primaryResidenceShare?.(assumptions) ?? 0;
+  const exclusion = residenceShare > 0 && saleYear >= PRIMARY_RESIDENCE_MIN_YEARS
+    ? Math.min(Math.max(0, totalGain - depreciationRecapture) * residenceShare, PRIMARY_RESIDENCE_EXCLUSION[personal.filingStatus])
+    : 0;
+
+  const capitalGain = Math.max(0, totalGain - depreciationRecapture - exclusion);
+  const capitalGainsTax = capitalGain * (capitalGainsRate + stateTaxRate);
+  const totalTaxOnSale = recaptureTax + capitalGainsTax;
+
+  // --- Suspended Passive Losses ---
+  // A fully taxable disposition releases all suspended losses against ordinary
+  // income, which includes the §1245 recapture
+  const releasedSuspendedLosses = hasPassiveActivity ? suspendedLosses : 0;
+  const suspendedLossTaxBenefit = section1245RecaptureTax -
+    calculateMarginalTaxEffect(personal, section1245Recapture - releasedSuspendedLosses).totalTaxChange;
+
+  return {
+    saleYear,
+    salePrice,
+    sellingCommission,
+    transferTax,
+    sellingCosts,
+    loanBalance,
+    netSaleProceeds,
+    adjustedBasis,
+    accumulatedDepreciation,
+    totalGain,
+    depreciationRecapture,
+    section1245Recapture,
+    section1245RecaptureTax,
+    section1250Recapture,
+    section1250RecaptureTax,
+    recaptureTax,
+    exclusion,
+    capitalGain,
+    capitalGainsTax,
+    totalTaxOnSale,
+    releasedSuspendedLosses,
+    suspendedLossTaxBenefit,
+    afterTaxSaleProceeds: netSaleProceeds - totalTaxOnSale + suspendedLossTaxBenefit,
+  };
+};
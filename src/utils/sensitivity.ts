@@ -0,0 +1,65 @@
+import type { AnalysisInputs, InputVariable, OutputMetric, Scenario, SensitivityAnalysis, SensitivityTable, TornadoBar } from '../types';
+import { calculateProforma } from './calculations';
+import { getInputValue, getInputVariables, withInputValue } from './inputs';
+
+// Number of input values on each side of the data table
+const TABLE_STEPS = 5;
+
+const evaluate = (inputs: AnalysisInputs, scenario: Scenario, metric: OutputMetric): number => {
+  return metric.value(calculateProforma(inputs.assumptions, inputs.personal, scenario));
+};
+
+/**
+ * Flexes every numeric input down and up by `flex` (e.g. 0.1 for ±10%) and
+ * ranks the inputs by how far the metric swings between the two.
+ * Inputs that are zero, or that the metric does not depend on, are dropped.
+ */
+export const calculateSensitivity = (
+  inputs: AnalysisInputs,
+  scenario: Scenario,
+  metric: OutputMetric,
+  flex: number
+): SensitivityAnalysis => {
+  const baseOutput = evaluate(inputs, scenario, metric);
+
+  const bars = getInputVariables(inputs, scenario)
+    .map((variable): TornadoBar => {
+      const baseInput = getInputValue(inputs, variable);
+      const lowInput = baseInput * (1 - flex);
+      const highInput = baseInput * (1 + flex);
+      const lowOutput = evaluate(withInputValue(inputs, variable, lowInput), scenario, metric);
+      const highOutput = evaluate(withInputValue(inputs, variable, highInput), scenario, metric);
+      return { variable, baseInput, lowInput, highInput, lowOutput, highOutput, swing: Math.abs(highOutput - lowOutput) };
+    })
+    .filter((bar) => bar.baseInput !== 0 && isFinite(bar.swing) && bar.swing > 1e-9)
+    .sort((a, b) => b.swing - a.swing);
+
+  return { metric, baseOutput, bars };
+};
+
+/**
+ * Two-variable data table: the metric at each combination of the two inputs,
+ * each stepped evenly across ±`flex` of its current value.
+ */
+export const calculateSensitivityTable = (
+  inputs: AnalysisInputs,
+  scenario: Scenario,
+  metric: OutputMetric,
+  rowVariable: InputVariable,
+  columnVariable: InputVariable,
+  flex: number
+): SensitivityTable => {
+  const steps = (variable: InputVariable): number[] => {
+    const base = getInputValue(inputs, variable);
+    return Array.from({ length: TABLE_STEPS }, (_, i) => base * (1 - flex + (2 * flex * i) / (TABLE_STEPS - 1)));
+  };
+  const rowInputs = steps(rowVariable);
+  const columnInputs = steps(columnVariable);
+
+  const outputs = rowInputs.map((rowInput) => {
+    const rowFlexed = withInputValue(inputs, rowVariable, rowInput);
+    return columnInputs.map((columnInput) => evaluate(withInputValue(rowFlexed, columnVariable, columnInput), scenario, metric));
+  });
+
+  return { rowVariable, columnVariable, rowInputs, columnInputs, outputs };
+};
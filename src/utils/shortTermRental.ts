@@ -0,0 +1,127 @@
+import type { Assumptions, StrCalendarMonth, StrIncome, StrMonth } from '../types';
+
+export const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const DAYS_IN_MONTH = [31, 28, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+// Typical leisure-market seasonality: summer peak, holiday bump, winter trough
+const SEASONAL_RATE_FACTORS = [0.85, 0.85, 0.95, 1.0, 1.05, 1.2, 1.25, 1.2, 1.0, 0.95, 0.85, 0.95];
+const SEASONAL_OCCUPANCY_FACTORS = [0.75, 0.8, 0.95, 1.0, 1.05, 1.2, 1.25, 1.2, 1.0, 0.95, 0.8, 0.9];
+
+/**
+ * Average daily rate (revenue per booked night) and occupancy across the year.
+ */
+export const summarizeStrCalendar = (calendar: StrCalendarMonth[]): { avgNightlyRate: number; occupancyRate: number } => {
+  let nights = 0;
+  let revenue = 0;
+  let days = 0;
+  calendar.forEach((month, i) => {
+    const booked = DAYS_IN_MONTH[i] * month.occupancyRate;
+    nights += booked;
+    revenue += booked * month.nightlyRate;
+    days += DAYS_IN_MONTH[i];
+  });
+  return {
+    avgNightlyRate: nights > 0 ? revenue / nights : 0,
+    occupancyRate: days > 0 ? nights / days : 0,
+  };
+};
+
+/**
+ * Rescales every month of the calendar so the annual averages match,
+ * keeping the seasonal shape. A flat calendar is used when there is no shape to keep.
+ */
+export const rescaleStrCalendar = (
+  calendar: StrCalendarMonth[],
+  avgNightlyRate: number,
+  occupancyRate: number
+): StrCalendarMonth[] => {
+  const current = summarizeStrCalendar(calendar);
+  return calendar.map((month) => ({
+    nightlyRate: current.avgNightlyRate > 0
+      ? month.nightlyRate * avgNightlyRate / current.avgNightlyRate
+      : avgNightlyRate,
+    occupancyRate: current.occupancyRate > 0
+      ? Math.min(1, month.occupancyRate * occupancyRate / current.occupancyRate)
+      : occupancyRate,
+  }));
+};
+
+/**
+ * Builds a 12-month calendar with a typical seasonal curve whose
+ * annual averages match the given nightly rate and occupancy.
+ */
+export const buildSeasonalCalendar = (avgNightlyRate: number, occupancyRate: number): StrCalendarMonth[] => {
+  const shape = SEASONAL_RATE_FACTORS.map((rateFactor, i) => ({
+    nightlyRate: rateFactor,
+    occupancyRate: SEASONAL_OCCUPANCY_FACTORS[i],
+  }));
+  return rescaleStrCalendar(shape, avgNightlyRate, occupancyRate);
+};
+
+/**
+ * Sets the STR annual averages, rescaling the seasonal calendar to match.
+ */
+export const withStrAverages = (
+  assumptions: Assumptions,
+  averages: Partial<Pick<Assumptions, 'avgNightlyRate' | 'occupancyRate'>>
+): Assumptions => {
+  const next = { ...assumptions, ...averages };
+  return { ...next, strCalendar: rescaleStrCalendar(assumptions.strCalendar, next.avgNightlyRate, next.occupancyRate) };
+};
+
+/**
+ * Replaces the seasonal calendar and recalculates the STR averages from it.
+ */
+export const withStrCalendar = (assumptions: Assumptions, strCalendar: StrCalendarMonth[]): Assumptions => {
+  return { ...assumptions, strCalendar, ...summarizeStrCalendar(strCalendar) };
+};
+
+/**
+ * Short-term rental revenue and turnover costs for a year, month by month.
+ * Bookings are split into stays of the average length; each stay pays the
+ * guest cleaning fee and costs one cleaning plus consumables.
+ */
+export const calculateStrIncome = (assumptions: Assumptions, incomeGrowth: number, expenseGrowth: number): StrIncome => {
+  const {
+    strCalendar,
+    avgStayNights,
+    cleaningFee,
+    cleaningCostPerTurnover,
+    consumablesPerStay,
+    lodgingTaxRate,
+  } = assumptions;
+
+  const months: StrMonth[] = strCalendar.map((entry, i) => {
+    const nightsBooked = DAYS_IN_MONTH[i] * entry.occupancyRate;
+    const stays = avgStayNights > 0 ? nightsBooked / avgStayNights : 0;
+    const rentRevenue = nightsBooked * entry.nightlyRate * incomeGrowth;
+    const cleaningFeeRevenue = stays * cleaningFee * incomeGrowth;
+    return {
+      month: i + 1,
+      nightlyRate: entry.nightlyRate * incomeGrowth,
+      occupancyRate: entry.occupancyRate,
+      nightsBooked,
+      stays,
+      rentRevenue,
+      cleaningFeeRevenue,
+      revenue: rentRevenue + cleaningFeeRevenue,
+    };
+  });
+
+  const sum = (key: keyof StrMonth) => months.reduce((total, month) => total + month[key], 0);
+  const grossRevenue = sum('revenue');
+  const stays = sum('stays');
+
+  return {
+    months,
+    nightsBooked: sum('nightsBooked'),
+    stays,
+    rentRevenue: sum('rentRevenue'),
+    cleaningFeeRevenue: sum('cleaningFeeRevenue'),
+    grossRevenue,
+    cleaningCost: stays * cleaningCostPerTurnover * expenseGrowth,
+    consumablesCost: stays * consumablesPerStay * expenseGrowth,
+    // Rates are quoted tax-inclusive, so the host remits lodging tax out of revenue
+    lodgingTax: grossRevenue * lodgingTaxRate,
+  };
+};
@@ -0,0 +1,206 @@
+import type { FilingStatus, HomeDeductionInputs, ItemizedDeductions, PersonalInfo, TaxBracket, TaxEffect, TaxRuleSet, TaxYear } from '../types';
+
+/**
+ * Builds a bracket table from the upper bound of each bracket.
+ * The last rate applies to all income above the final bound.
+ */
+const brackets = (rates: number[], bounds: number[]): TaxBracket[] => {
+  return rates.map((rate, i) => ({ rate, upTo: bounds[i] ?? Infinity }));
+};
+
+const TCJA_RATES = [0.10, 0.12, 0.22, 0.24, 0.32, 0.35, 0.37];
+const PRE_TCJA_RATES = [0.10, 0.15, 0.25, 0.28, 0.33, 0.35, 0.396];
+
+/**
+ * Federal rule sets by tax year.
+ */
+export const TAX_RULES: Record<TaxYear, TaxRuleSet> = {
+  // IRS Rev. Proc. 2023-34
+  '2024': {
+    label: '2024 (TCJA)',
+    brackets: {
+      'single': brackets(TCJA_RATES, [11600, 47150, 100525, 191950, 243725, 609350]),
+      'married-joint': brackets(TCJA_RATES, [23200, 94300, 201050, 383900, 487450, 731200]),
+      'married-separate': brackets(TCJA_RATES, [11600, 47150, 100525, 191950, 243725, 365600]),
+      'head-of-household': brackets(TCJA_RATES, [16550, 63100, 100500, 191950, 243700, 609350]),
+    },
+    standardDeduction: {
+      'single': 14600,
+      'married-joint': 29200,
+      'married-separate': 14600,
+      'head-of-household': 21900,
+    },
+    personalExemption: 0,
+    saltCap: {
+      'single': 10000,
+      'married-joint': 10000,
+      'married-separate': 5000,
+      'head-of-household': 10000,
+    },
+    // Acquisition debt on which mortgage interest is deductible
+    mortgageDebtLimit: {
+      'single': 750000,
+      'married-joint': 750000,
+      'married-separate': 375000,
+      'head-of-household': 750000,
+    },
+  },
+  // Pre-TCJA law as if the individual provisions had expired after 2025:
+  // 2017 brackets, standard deduction and exemption indexed for inflation (estimates)
+  '2026-sunset': {
+    label: '2026+ (TCJA Sunset)',
+    brackets: {
+      'single': brackets(PRE_TCJA_RATES, [12150, 49300, 119400, 249100, 541700, 544000]),
+      'married-joint': brackets(PRE_TCJA_RATES, [24300, 98600, 199000, 303350, 541700, 611900]),
+      'married-separate': brackets(PRE_TCJA_RATES, [12150, 49300, 99500, 151675, 270850, 305950]),
+      'head-of-household': brackets(PRE_TCJA_RATES, [17350, 66050, 170550, 276200, 541700, 577950]),
+    },
+    standardDeduction: {
+      'single': 8300,
+      'married-joint': 16600,
+      'married-separate': 8300,
+      'head-of-household': 12150,
+    },
+    personalExemption: 5300,
+    saltCap: {
+      'single': Infinity,
+      'married-joint': Infinity,
+      'married-separate': Infinity,
+      'head-of-household': Infinity,
+    },
+    mortgageDebtLimit: {
+      'single': 1000000,
+      'married-joint': 1000000,
+      'married-separate': 500000,
+      'head-of-household': 1000000,
+    },
+  },
+};
+
+// Personal exemptions claimed (filer and spouse)
+const EXEMPTIONS: Record<FilingStatus, number> = {
+  'single': 1,
+  'married-joint': 2,
+  'married-separate': 1,
+  'head-of-household': 1,
+};
+
+/**
+ * Federal income tax on taxable income using progressive brackets.
+ */
+export const calculateFederalIncomeTax = (taxableIncome: number, filingStatus: FilingStatus, taxYear: TaxYear): number => {
+  let tax = 0;
+  let lowerBound = 0;
+
+  for (const { rate, upTo } of TAX_RULES[taxYear].brackets[filingStatus]) {
+    if (taxableIncome <= lowerBound) break;
+    tax += (Math.min(taxableIncome, upTo) - lowerBound) * rate;
+    lowerBound = upTo;
+  }
+  return tax;
+};
+
+/**
+ * State income tax paid on W-2 income, deductible as SALT when itemizing.
+ */
+export const getStateIncomeTax = (personal: PersonalInfo): number => {
+  return personal.w2Income * personal.stateTaxRate;
+};
+
+/**
+ * The deduction taken without a home: the larger of the standard deduction
+ * and itemizing state income tax alone (up to the SALT cap).
+ */
+export const getBaselineDeduction = (personal: PersonalInfo): number => {
+  const rules = TAX_RULES[personal.taxYear];
+  const saltOnly = Math.min(getStateIncomeTax(personal), rules.saltCap[personal.filingStatus]);
+  return Math.max(rules.standardDeduction[personal.filingStatus], saltOnly);
+};
+
+/**
+ * Taxable income before any property income or deductions:
+ * W-2 income less the baseline deduction and personal exemptions.
+ */
+export const getBaselineTaxableIncome = (personal: PersonalInfo): number => {
+  const rules = TAX_RULES[personal.taxYear];
+  const exemptions = rules.personalExemption * EXEMPTIONS[personal.filingStatus];
+  return Math.max(0, personal.w2Income - getBaselineDeduction(personal) - exemptions);
+};
+
+/**
+ * Itemized deductions from owning a home, and how much they add over the
+ * deduction the filer would take anyway.
+ * - Property tax shares the SALT cap with state income tax
+ * - Interest is deductible only on acquisition debt up to the limit
+ * - Only itemized deductions above the baseline deduction save tax
+ */
+export const calculateHomeDeductions = (personal: PersonalInfo, home: HomeDeductionInputs): ItemizedDeductions => {
+  const rules = TAX_RULES[personal.taxYear];
+  const { filingStatus } = personal;
+
+  // --- SALT ---
+  const stateIncomeTax = getStateIncomeTax(personal);
+  const saltCap = rules.saltCap[filingStatus];
+  const saltDeduction = Math.min(stateIncomeTax + home.propertyTax, saltCap);
+  const deductiblePropTax = saltDeduction - Math.min(stateIncomeTax, saltCap);
+
+  // --- Mortgage Interest ---
+  const mortgageDebtLimit = rules.mortgageDebtLimit[filingStatus];
+  const deductibleShare = home.averageMortgageBalance > mortgageDebtLimit
+    ? mortgageDebtLimit / home.averageMortgageBalance
+    : 1;
+  const deductibleInterest = home.mortgageInterest * deductibleShare;
+  const deductiblePoints = home.points * deductibleShare;
+
+  // --- Standard vs Itemized ---
+  const itemizedDeductions = saltDeduction + deductibleInterest + deductiblePoints;
+  const baselineDeduction = getBaselineDeduction(personal);
+
+  return {
+    standardDeduction: rules.standardDeduction[filingStatus],
+    stateIncomeTax,
+    saltCap,
+    saltDeduction,
+    deductiblePropTax,
+    mortgageDebtLimit,
+    deductibleInterest,
+    deductiblePoints,
+    itemizedDeductions,
+    baselineDeduction,
+    itemizes: itemizedDeductions > baselineDeduction,
+    incrementalDeduction: Math.max(0, itemizedDeductions - baselineDeduction),
+  };
+};
+
+/**
+ * The federal bracket the filer's W-2 income currently falls in.
+ */
+export const getMarginalFederalRate = (personal: PersonalInfo): number => {
+  const taxableIncome = getBaselineTaxableIncome(personal);
+  const { brackets: table } = TAX_RULES[personal.taxYear];
+  return (table[personal.filingStatus].find((bracket) => taxableIncome < bracket.upTo) ?? table[personal.filingStatus][0]).rate;
+};
+
+/**
+ * The change in federal and state tax from adding `incomeChange` to
+ * taxable income (negative for a loss or deduction).
+ * Federal tax is recomputed through the brackets, so a large loss or
+ * deduction is taxed across every bracket it crosses; state tax is flat.
+ */
+export const calculateMarginalTaxEffect = (personal: PersonalInfo, incomeChange: number): TaxEffect => {
+  const { filingStatus, taxYear, stateTaxRate } = personal;
+
+  const baselineIncome = getBaselineTaxableIncome(personal);
+  const adjustedIncome = Math.max(0, baselineIncome + incomeChange);
+
+  const federalTaxChange =
+    calculateFederalIncomeTax(adjustedIncome, filingStatus, taxYear) -
+    calculateFederalIncomeTax(baselineIncome, filingStatus, taxYear);
+  const stateTaxChange = (adjustedIncome - baselineIncome) * stateTaxRate;
+
+  return {
+    federalTaxChange,
+    stateTaxChange,
+    totalTaxChange: federalTaxChange + stateTaxChange,
+  };
+};
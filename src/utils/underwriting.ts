@@ -0,0 +1,118 @@
+import type { Assumptions, UnderwritingCheck, UnderwritingMetrics } from '../types';
+import { formatPercent } from './calculations';
+
+interface UnderwritingInputs {
+  grossPotentialIncome: number;
+  effectiveGrossIncome: number;
+  totalOpEx: number;
+  debtService: number;
+}
+
+/**
+ * Lender and investor ratios from a rental's income, operating expenses and
+ * debt service (P&I plus mortgage insurance). Ratios against income are
+ * against gross potential income, before vacancy.
+ */
+export const calculateUnderwriting = (
+  assumptions: Assumptions,
+  { grossPotentialIncome, effectiveGrossIncome, totalOpEx, debtService }: UnderwritingInputs
+): UnderwritingMetrics => {
+  const { purchasePrice, monthlyRent, underwritingThresholds } = assumptions;
+  const netOperatingIncome = effectiveGrossIncome - totalOpEx;
+
+  return {
+    netOperatingIncome,
+    debtService,
+    // Infinite with no debt: nothing to cover
+    debtServiceCoverageRatio: debtService > 0 ? netOperatingIncome / debtService : Infinity,
+    grossRentMultiplier: grossPotentialIncome > 0 ? purchasePrice / grossPotentialIncome : Infinity,
+    breakEvenOccupancy: grossPotentialIncome > 0 ? (totalOpEx + debtService) / grossPotentialIncome : Infinity,
+    operatingExpenseRatio: effectiveGrossIncome > 0 ? totalOpEx / effectiveGrossIncome : Infinity,
+    // Against the long-term market rent, whatever the strategy
+    priceToRentRatio: monthlyRent > 0 ? purchasePrice / (monthlyRent * 12) : Infinity,
+    monthlyRentToPrice: purchasePrice > 0 ? grossPotentialIncome / 12 / purchasePrice : 0,
+    fiftyPercentRuleCashFlow: grossPotentialIncome * (1 - underwritingThresholds.fiftyPercentRuleExpenseShare) - debtService,
+  };
+};
+
+/**
+ * Scores the underwriting metrics against the pass/fail thresholds.
+ */
+export const getUnderwritingChecks = (metrics: UnderwritingMetrics, assumptions: Assumptions): UnderwritingCheck[] => {
+  const thresholds = assumptions.underwritingThresholds;
+  const check = (
+    label: string,
+    value: number,
+    format: UnderwritingCheck['format'],
+    limit: UnderwritingCheck['limit'],
+    threshold: number,
+    description: string
+  ): UnderwritingCheck => ({
+    label,
+    value,
+    format,
+    threshold,
+    limit,
+    passed: limit === 'min' ? value >= threshold : value <= threshold,
+    description,
+  });
+
+  return [
+    check(
+      'Debt Service Coverage',
+      metrics.debtServiceCoverageRatio,
+      'ratio',
+      'min',
+      thresholds.minDebtServiceCoverage,
+      `NOI / debt service; lenders look for at least ${thresholds.minDebtServiceCoverage.toFixed(2)}x.`
+    ),
+    check(
+      'Gross Rent Multiplier',
+      metrics.grossRentMultiplier,
+      'ratio',
+      'max',
+      thresholds.maxGrossRentMultiplier,
+      `Price / gross annual income; at most ${thresholds.maxGrossRentMultiplier.toFixed(1)}x.`
+    ),
+    check(
+      'Break-Even Occupancy',
+      metrics.breakEvenOccupancy,
+      'percent',
+      'max',
+      thresholds.maxBreakEvenOccupancy,
+      `Share of gross income needed to cover operating expenses and debt service; at most ${formatPercent(thresholds.maxBreakEvenOccupancy)}.`
+    ),
+    check(
+      'Operating Expense Ratio',
+      metrics.operatingExpenseRatio,
+      'percent',
+      'max',
+      thresholds.maxOperatingExpenseRatio,
+      `Operating expenses / effective gross income; at most ${formatPercent(thresholds.maxOperatingExpenseRatio)}.`
+    ),
+    check(
+      'Price-to-Rent Ratio',
+      metrics.priceToRentRatio,
+      'ratio',
+      'max',
+      thresholds.maxPriceToRentRatio,
+      `Price / annual market rent; at most ${thresholds.maxPriceToRentRatio.toFixed(1)}x.`
+    ),
+    check(
+      '1% Rule',
+      metrics.monthlyRentToPrice,
+      'percent',
+      'min',
+      thresholds.minMonthlyRentToPrice,
+      `Monthly gross income / price; at least ${formatPercent(thresholds.minMonthlyRentToPrice)}.`
+    ),
+    check(
+      '50% Rule Cash Flow',
+      metrics.fiftyPercentRuleCashFlow,
+      'currency',
+      'min',
+      0,
+      `Gross income less ${formatPercent(thresholds.fiftyPercentRuleExpenseShare)} for expenses, less debt service; must not be negative.`
+    ),
+  ];
+};
@@ -0,0 +1,152 @@
+import type { Assumptions, FieldMeta, NumericKey, PersonalInfo, Scenario, UnderwritingThresholds, ValidationIssue, ValidationResult } from '../types';
+import { getScenarios } from '../scenarios';
+import { calculateProforma, formatPercent } from './calculations';
+import { ASSUMPTION_FIELDS, PERSONAL_FIELDS, UNDERWRITING_THRESHOLD_FIELDS, formatFieldValue } from './fieldSchema';
+import { assumptionAppliesTo } from './inputs';
+import { MONTH_NAMES } from './shortTermRental';
+
+// Shares of a whole, which can't pass 100%
+const SHARE_FIELDS: string[] = [
+  'downPaymentPercent',
+  'occupancyRate',
+  'midTermOccupancyRate',
+  'ownerOccupiedPercent',
+  'refinanceLtvPercent',
+  'vacancyPercent',
+  'landValuePercent',
+  'maxBreakEvenOccupancy',
+  'maxOperatingExpenseRatio',
+  'fiftyPercentRuleExpenseShare',
+];
+
+// Market sanity checks on the long-term rental
+const MIN_CAP_RATE = 0.03;
+const MIN_RENT_TO_PRICE = 0.004;
+
+/**
+ * Checks one value against its field: a percent below zero or a share above
+ * 100% is an error, as is any other value below its minimum (e.g. a 0-year
+ * loan term). A percent outside its slider range is a warning.
+ */
+const validateField = (
+  key: ValidationIssue['key'],
+  field: FieldMeta,
+  value: number
+): ValidationIssue | null => {
+  const { label, min, max } = field;
+  if (!isFinite(value)) return { severity: 'error', key, message: `${label} must be a number.` };
+
+  if (field.unit !== 'percent') {
+    if (min !== undefined && value < min) {
+      return { severity: 'error', key, message: `${label} must be at least ${formatFieldValue(field, min)}.` };
+    }
+    if (max !== undefined && value > max) {
+      return { severity: 'warning', key, message: `${label} is above the usual maximum of ${formatFieldValue(field, max)}.` };
+    }
+    return null;
+  }
+
+  if (value < 0 && (min ?? 0) >= 0) return { severity: 'error', key, message: `${label} can't be negative.` };
+  if (value > 1 && SHARE_FIELDS.includes(key)) return { severity: 'error', key, message: `${label} can't be above 100%.` };
+  if ((min !== undefined && value < min / 100) || (max !== undefined && value > max / 100)) {
+    return {
+      severity: 'warning',
+      key,
+      message: `${label} of ${formatPercent(value)} is outside the usual ${formatPercent((min ?? 0) / 100)} to ${formatPercent((max ?? 100) / 100)}.`,
+    };
+  }
+  return null;
+};
+
+/**
+ * Validates the inputs. Errors are inconsistent values the calculation would
+ * quietly get wrong (e.g. a down payment above 100%); warnings are values or
+ * results outside the usual market range (e.g. a 2% cap rate). Only inputs
+ * that affect one of `scenarios` are reported, so a BRRRR-only input never
+ * blocks the rental analysis.
+ */
+export const validateInputs = (
+  assumptions: Assumptions,
+  personal: PersonalInfo,
+  scenarios: Scenario[] = getScenarios().map((definition) => definition.id)
+): ValidationResult => {
+  const issues: ValidationIssue[] = [
+    ...(Object.keys(ASSUMPTION_FIELDS) as NumericKey<Assumptions>[]).map((key) =>
+      validateField(key, ASSUMPTION_FIELDS[key], assumptions[key])
+    ),
+    ...(Object.keys(PERSONAL_FIELDS) as NumericKey<PersonalInfo>[]).map((key) =>
+      validateField(key, PERSONAL_FIELDS[key], personal[key])
+    ),
+    ...(Object.keys(UNDERWRITING_THRESHOLD_FIELDS) as NumericKey<UnderwritingThresholds>[]).map((key) =>
+      validateField(key, UNDERWRITING_THRESHOLD_FIELDS[key], assumptions.underwritingThresholds[key])
+    ),
+  ].filter((issue): issue is ValidationIssue => issue !== null);
+
+  // Cross-field consistency
+  if (assumptions.loanTerm >= 1 && assumptions.interestOnlyYears >= assumptions.loanTerm) {
+    issues.push({
+      severity: 'error',
+      key: 'interestOnlyYears',
+      message: 'Interest-Only Period must be shorter than the Loan Term.',
+    });
+  }
+  if (assumptions.loanTerm >= 1 && assumptions.refinanceMonth > assumptions.loanTerm * 12) {
+    issues.push({
+      severity: 'error',
+      key: 'refinanceMonth',
+      message: `Refinance Month ${assumptions.refinanceMonth} is after the ${assumptions.loanTerm}-year loan is paid off.`,
+    });
+  } else if (assumptions.refinanceMonth > assumptions.holdPeriodYears * 12) {
+    issues.push({
+      severity: 'error',
+      key: 'refinanceMonth',
+      message: `Refinance Month ${assumptions.refinanceMonth} is after the ${assumptions.holdPeriodYears}-year hold period ends.`,
+    });
+  }
+  assumptions.strCalendar.forEach((month, i) => {
+    // Negated so a missing (NaN) rate or occupancy fails too
+    if (!(month.nightlyRate >= 0) || !(month.occupancyRate >= 0 && month.occupancyRate <= 1)) {
+      issues.push({
+        severity: 'error',
+        key: 'strCalendar',
+        message: `${MONTH_NAMES[i]} in the seasonal calendar needs a nightly rate of at least $0 and occupancy from 0% to 100%.`,
+      });
+    }
+  });
+  const costSegShare = assumptions.costSegFiveYearPercent + assumptions.costSegSevenYearPercent + assumptions.costSegFifteenYearPercent;
+  if (assumptions.costSegregationEnabled && costSegShare > 1) {
+    issues.push({
+      severity: 'error',
+      key: 'costSegFiveYearPercent',
+      message: `Cost segregation reclassifies ${formatPercent(costSegShare)} of the building; it can't pass 100%.`,
+    });
+  }
+
+  // Market sanity, once the inputs are consistent enough to calculate
+  if (!issues.some((issue) => issue.severity === 'error') && assumptions.purchasePrice > 0) {
+    const rentToPrice = assumptions.monthlyRent / assumptions.purchasePrice;
+    if (rentToPrice < MIN_RENT_TO_PRICE) {
+      issues.push({
+        severity: 'warning',
+        key: 'monthlyRent',
+        message: `Monthly Rent is ${(rentToPrice * 100).toFixed(2)}% of the price; below ${formatPercent(MIN_RENT_TO_PRICE)} is rare outside the priciest markets.`,
+      });
+    }
+    const rental = calculateProforma(assumptions, personal, 'rental');
+    if ('capRate' in rental && rental.capRate < MIN_CAP_RATE) {
+      issues.push({
+        severity: 'warning',
+        key: 'purchasePrice',
+        message: `A ${formatPercent(rental.capRate)} cap rate as a long-term rental is below the ${formatPercent(MIN_CAP_RATE)} most markets trade at.`,
+      });
+    }
+  }
+
+  const relevant = issues.filter(
+    (issue) => issue.key in PERSONAL_FIELDS || scenarios.some((scenario) => assumptionAppliesTo(issue.key as keyof Assumptions, scenario))
+  );
+  return {
+    errors: relevant.filter((issue) => issue.severity === 'error'),
+    warnings: relevant.filter((issue) => issue.severity === 'warning'),
+  };
+};
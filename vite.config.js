@@ -2,11 +2,18 @@
 import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
-export default defineConfig({
-    plugins: [react()],
-    resolve: {
-        alias: {
-            "@": path.resolve(__dirname, "./src"),
+export default defineConfig(function (_a) {
+    var isSsrBuild = _a.isSsrBuild;
+    return ({
+        plugins: [react()],
+        resolve: {
+            alias: {
+                "@": path.resolve(__dirname, "./src"),
+            },
         },
-    },
+        build: {
+            // The CLI (npm run build:cli) needs none of the app's static assets
+            copyPublicDir: !isSsrBuild,
+        },
+    });
 });
@@ -3,11 +3,15 @@ import { defineConfig } from "vite";
 import react from "@vitejs/plugin-react";
 import path from "path";
 
-export default defineConfig({
+export default defineConfig(({ isSsrBuild }) => ({
   plugins: [react()],
   resolve: {
     alias: {
       "@": path.resolve(__dirname, "./src"),
     },
   },
-});
+  build: {
+    // The CLI (npm run build:cli) needs none of the app's static assets
+    copyPublicDir: !isSsrBuild,
+  },
+}));